@@ -1,17 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
 import { TransactionInput } from '@/components/TransactionInput';
-import { MonitoringStatus } from '@/components/MonitoringStatus';
-import { useTransactionMonitoring } from '@/hooks/use-transaction-monitoring';
+import { BulkTransactionInput } from '@/components/BulkTransactionInput';
+import { WatchlistItem } from '@/components/WatchlistItem';
+import { EnvironmentSelector } from '@/components/EnvironmentSelector';
+import { DebugLogDrawer } from '@/components/DebugLogDrawer';
+import { TransactionHistory } from '@/components/TransactionHistory';
+import { WalletLookup } from '@/components/WalletLookup';
+import { Toaster } from '@/components/ui/sonner';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useTransactionWatchlist } from '@/hooks/use-transaction-watchlist';
+import { useRelayEnvironment } from '@/hooks/use-relay-environment';
+import { useTransactionHistory } from '@/hooks/use-transaction-history';
+import { useHashRoute } from '@/hooks/use-hash-route';
+import { getHistoryId, historyUpdateFromState } from '@/lib/history';
+import { AppRoute, formatRoute } from '@/lib/routes';
+import { isTrustedApiBaseUrl } from '@/lib/environments';
+import { toast } from 'sonner';
+
+const tabForRoute = (route: AppRoute) => (route.kind === 'wallet' ? 'wallet' : 'single');
 
 function App() {
   const {
-    monitoringState,
+    environment,
+    environmentId,
+    customApiUrl,
+    setEnvironmentId,
+    setCustomApiUrl,
+  } = useRelayEnvironment();
+  const {
+    history,
+    record,
+    removeEntry,
+    clearHistory,
+  } = useTransactionHistory();
+  const {
+    watchlist,
     isLoading,
     error,
-    startMonitoring,
-    manualRefresh,
-    stopMonitoring,
-    pollCount,
-  } = useTransactionMonitoring();
+    indexRetry,
+    addTransaction,
+    reindexTransaction,
+    watchTransaction,
+    watchRequest,
+    resumeTransaction,
+    removeTransaction,
+    updateEntry,
+  } = useTransactionWatchlist({ onRecord: record });
+  const { route, navigate } = useHashRoute();
+  const [tab, setTab] = useState(() => tabForRoute(route));
+
+  // Opening a deep link starts its lookup once; the reindex flag is keyed out so dropping it
+  // from the URL afterwards does not start the same route again
+  const handledRouteRef = useRef<string | null>(null);
+  useEffect(() => {
+    const routeKey = formatRoute('reindex' in route ? { ...route, reindex: false } : route);
+    if (route.kind === 'home') {
+      handledRouteRef.current = null;
+      return;
+    }
+    if (handledRouteRef.current === routeKey) return;
+    handledRouteRef.current = routeKey;
+    setTab(tabForRoute(route));
+
+    if (route.kind === 'tx') {
+      const trusted = route.apiBaseUrl && isTrustedApiBaseUrl(route.apiBaseUrl, customApiUrl);
+      if (route.apiBaseUrl && !trusted) {
+        toast.warning('Ignored the API in this link', {
+          description: `${route.apiBaseUrl} is not one of your environments, so the current environment is used. Set it as your custom API URL to follow this link.`,
+        });
+      }
+      const apiBaseUrl = trusted ? route.apiBaseUrl : undefined;
+      if (route.reindex) reindexTransaction(route.hash, route.chainId, apiBaseUrl);
+      else watchTransaction(route.hash, route.chainId, apiBaseUrl);
+    } else if (route.kind === 'request') {
+      if (route.reindex) addTransaction(route.requestId);
+      else watchRequest(route.requestId);
+    }
+
+    // Reloading the link should monitor, not re-index again
+    if ('reindex' in route && route.reindex) {
+      navigate({ ...route, reindex: false }, { replace: true });
+    }
+  }, [route, customApiUrl, navigate, reindexTransaction, watchTransaction, addTransaction, watchRequest]);
+
+  const hasActiveMonitors = watchlist.some(entry => entry.isMonitoring);
+  const watchedIds = watchlist
+    .filter(entry => entry.isMonitoring)
+    .map(entry => getHistoryId(historyUpdateFromState(entry, environment.apiBaseUrl)));
 
   return (
     <div className="min-h-screen bg-background">
@@ -26,23 +101,73 @@ function App() {
             </p>
           </div>
 
-          {!monitoringState ? (
-            <TransactionInput
-              onSubmit={startMonitoring}
-              isLoading={isLoading}
-              error={error}
-            />
-          ) : (
-            <MonitoringStatus
-              monitoringState={monitoringState}
-              onManualRefresh={manualRefresh}
-              onStopMonitoring={stopMonitoring}
-              isLoading={isLoading}
-              pollCount={pollCount}
-            />
+          <EnvironmentSelector
+            environment={environment}
+            environmentId={environmentId}
+            customApiUrl={customApiUrl}
+            onEnvironmentChange={setEnvironmentId}
+            onCustomApiUrlChange={setCustomApiUrl}
+            disabled={isLoading || hasActiveMonitors}
+          />
+          <Tabs value={tab} onValueChange={setTab} className="gap-4">
+            <TabsList className="mx-auto">
+              <TabsTrigger value="single">Single transaction</TabsTrigger>
+              <TabsTrigger value="bulk">Bulk</TabsTrigger>
+              <TabsTrigger value="wallet">Wallet</TabsTrigger>
+              <TabsTrigger value="history">History ({history.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="single">
+              <TransactionInput
+                key={environment.apiBaseUrl}
+                onSubmit={addTransaction}
+                isLoading={isLoading}
+                error={error}
+                retry={indexRetry}
+              />
+            </TabsContent>
+            <TabsContent value="bulk">
+              <BulkTransactionInput key={environment.apiBaseUrl} onRecord={record} />
+            </TabsContent>
+            <TabsContent value="wallet">
+              <WalletLookup
+                key={environment.apiBaseUrl}
+                onRecord={record}
+                initialAddress={route.kind === 'wallet' ? route.address : undefined}
+              />
+            </TabsContent>
+            <TabsContent value="history">
+              <TransactionHistory
+                history={history}
+                apiBaseUrl={environment.apiBaseUrl}
+                watchedIds={watchedIds}
+                isLoading={isLoading}
+                onReindex={(entry) => entry.chainId !== undefined && reindexTransaction(entry.transactionHash, entry.chainId)}
+                onResume={resumeTransaction}
+                onRemove={removeEntry}
+                onClear={clearHistory}
+              />
+            </TabsContent>
+          </Tabs>
+
+          {watchlist.length > 0 && (
+            <div className="space-y-4">
+              <h2 className="text-xl font-semibold tracking-tight max-w-4xl mx-auto">
+                Watchlist ({watchlist.length})
+              </h2>
+              {watchlist.map(entry => (
+                <WatchlistItem
+                  key={entry.id}
+                  entry={entry}
+                  onUpdate={updateEntry}
+                  onRemove={removeTransaction}
+                />
+              ))}
+            </div>
           )}
         </div>
       </div>
+      <DebugLogDrawer />
+      <Toaster />
     </div>
   );
 }
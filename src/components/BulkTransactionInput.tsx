@@ -0,0 +1,155 @@
+import { useState, ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ListChecks, UploadSimple, CircleNotch, CheckCircle, XCircle } from '@phosphor-icons/react';
+import { useBulkReindex, BulkRow } from '@/hooks/use-bulk-reindex';
+import { HistoryRecorder } from '@/hooks/use-transaction-history';
+import { useChains } from '@/hooks/use-chains';
+import { ChainLabel } from '@/components/ChainLabel';
+import { truncateHash } from '@/lib/format';
+
+function RowStatusBadge({ row }: { row: BulkRow }) {
+  switch (row.status) {
+    case 'invalid':
+      return <Badge variant="outline" className="text-destructive">Invalid</Badge>;
+    case 'ready':
+      return <Badge variant="outline">Ready</Badge>;
+    case 'queued':
+      return <Badge variant="secondary">Queued</Badge>;
+    case 'indexing':
+      return <Badge variant="secondary"><CircleNotch className="mr-1 h-3 w-3 animate-spin" />Indexing</Badge>;
+    case 'indexed':
+      return <Badge variant="default" className="bg-accent text-accent-foreground"><CheckCircle className="mr-1 h-3 w-3" />Indexed</Badge>;
+    case 'failed':
+      return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Failed</Badge>;
+  }
+}
+
+interface BulkTransactionInputProps {
+  onRecord?: HistoryRecorder;
+}
+
+export function BulkTransactionInput({ onRecord }: BulkTransactionInputProps) {
+  const [text, setText] = useState('');
+  const { getChain } = useChains();
+  const { rows, isValidating, isSubmitting, validate, submit, cancel, reset } = useBulkReindex({ onRecord });
+
+  const submittable = rows.filter(row => row.status === 'ready' || row.status === 'failed').length;
+  const finished = rows.filter(row => row.status === 'indexed' || row.status === 'failed').length;
+  const processable = rows.filter(row => row.status !== 'invalid').length;
+  const invalid = rows.length - processable;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    validate(content);
+    e.target.value = '';
+  };
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks weight="bold" />
+          Bulk Re-index
+        </CardTitle>
+        <CardDescription>
+          Paste one explorer URL or transaction hash per line, or upload a CSV file. An optional <code className="bg-muted px-1 rounded">chainId</code> column
+          overrides chain detection (e.g. <code className="bg-muted px-1 rounded">0xabc…,8453</code>).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          placeholder={'https://etherscan.io/tx/0x1234...\nhttps://solscan.io/tx/5VER...\n0x9abc...,42161'}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={isSubmitting}
+          className="font-mono text-xs min-h-32"
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => validate(text)}
+            disabled={!text.trim() || isValidating || isSubmitting}
+          >
+            {isValidating && <CircleNotch className="h-4 w-4 animate-spin" />}
+            Preview
+          </Button>
+          <Button variant="outline" asChild>
+            <label className="cursor-pointer">
+              <UploadSimple className="h-4 w-4" />
+              Upload CSV
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleFile} disabled={isSubmitting} />
+            </label>
+          </Button>
+          {rows.length > 0 && (
+            <Button variant="ghost" onClick={() => { reset(); setText(''); }} disabled={isSubmitting}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {rows.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {processable} valid • {invalid} invalid
+                {finished > 0 && <> • {finished}/{processable} processed</>}
+              </span>
+              {isSubmitting ? (
+                <Button variant="outline" size="sm" onClick={cancel}>Cancel</Button>
+              ) : (
+                <Button size="sm" onClick={submit} disabled={submittable === 0}>
+                  Index {submittable} Transaction{submittable === 1 ? '' : 's'}
+                </Button>
+              )}
+            </div>
+            {(isSubmitting || finished > 0) && processable > 0 && (
+              <Progress value={(finished / processable) * 100} />
+            )}
+            <div className="border rounded-md max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Line</TableHead>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>Chain</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.id}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell className="font-mono text-xs" title={row.input}>
+                        {row.txHash ? truncateHash(row.txHash) : row.input.slice(0, 40)}
+                      </TableCell>
+                      <TableCell className="text-xs"><ChainLabel chainId={row.detectedChainId} chain={getChain(row.detectedChainId)} /></TableCell>
+                      <TableCell><RowStatusBadge row={row} /></TableCell>
+                      <TableCell className="text-xs max-w-64 whitespace-normal">
+                        {row.error ? (
+                          <span className="text-destructive">{row.error}</span>
+                        ) : row.requestId ? (
+                          <span className="font-mono break-all">{row.requestId}</span>
+                        ) : row.status === 'indexed' ? (
+                          <span className="text-muted-foreground">No request yet</span>
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
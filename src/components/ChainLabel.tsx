@@ -0,0 +1,29 @@
+import { Chain } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+// Logo from /chains, or a dot in the chain's brand color when there is none
+export function ChainIcon({ chain, className }: { chain?: Chain; className?: string }) {
+  const icon = chain?.iconUrl || chain?.logoUrl;
+  return icon
+    ? <img src={icon} alt="" className={cn('h-4 w-4 rounded-full shrink-0', className)} />
+    : <span className={cn('h-4 w-4 rounded-full shrink-0 bg-muted', className)} style={chain?.brandColor ? { backgroundColor: chain.brandColor } : undefined} />;
+}
+
+interface ChainLabelProps {
+  chainId: number | undefined;
+  chain?: Chain; // Unknown chains fall back to their ID
+  showId?: boolean;
+  className?: string;
+}
+
+export function ChainLabel({ chainId, chain, showId = false, className }: ChainLabelProps) {
+  if (chainId === undefined) return <span className={className}>—</span>;
+
+  return (
+    <span className={cn('inline-flex items-center gap-1.5', className)} title={`Chain ID ${chainId}`}>
+      <ChainIcon chain={chain} />
+      <span>{chain ? chain.displayName || chain.name : `Chain ${chainId}`}</span>
+      {showId && chain && <span className="text-xs text-muted-foreground font-mono">{chainId}</span>}
+    </span>
+  );
+}
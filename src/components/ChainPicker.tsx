@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { CaretUpDown, Check } from '@phosphor-icons/react';
+import { Chain } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { ChainIcon } from '@/components/ChainLabel';
+
+interface ChainPickerProps {
+  chains: Chain[];
+  value: number | null;
+  onChange: (chainId: number) => void;
+  foundChainIds?: number[]; // Chains whose RPC node knows the transaction; listed first
+  disabled?: boolean;
+}
+
+export function ChainPicker({ chains, value, onChange, foundChainIds = [], disabled }: ChainPickerProps) {
+  const [open, setOpen] = useState(false);
+  const selected = chains.find(chain => chain.id === value);
+  const sorted = [...chains].sort((a, b) => (
+    Number(foundChainIds.includes(b.id)) - Number(foundChainIds.includes(a.id))
+    || (a.displayName || a.name).localeCompare(b.displayName || b.name)
+  ));
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" role="combobox" aria-expanded={open} disabled={disabled} className="w-full justify-between">
+          {selected ? (
+            <span className="flex items-center gap-2">
+              <ChainIcon chain={selected} />
+              {selected.displayName || selected.name}
+              <span className="text-xs text-muted-foreground font-mono">{selected.id}</span>
+            </span>
+          ) : (
+            <span className="text-muted-foreground">Select the chain this transaction is on...</span>
+          )}
+          <CaretUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search chains..." />
+          <CommandList>
+            <CommandEmpty>No chain found.</CommandEmpty>
+            <CommandGroup>
+              {sorted.map(chain => (
+                <CommandItem
+                  key={chain.id}
+                  // cmdk filters on the value, so include the name and id
+                  value={`${chain.displayName} ${chain.name} ${chain.id}`}
+                  onSelect={() => {
+                    onChange(chain.id);
+                    setOpen(false);
+                  }}
+                >
+                  <ChainIcon chain={chain} />
+                  <span>{chain.displayName || chain.name}</span>
+                  <span className="text-xs text-muted-foreground font-mono">{chain.id}</span>
+                  {foundChainIds.includes(chain.id) && <Badge variant="secondary" className="ml-auto">Found</Badge>}
+                  <Check className={cn('h-4 w-4', foundChainIds.includes(chain.id) ? '' : 'ml-auto', chain.id === value ? 'opacity-100' : 'opacity-0')} />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
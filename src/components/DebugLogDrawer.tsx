@@ -0,0 +1,146 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Bug, Copy, Check, Trash } from '@phosphor-icons/react';
+import { useDebugLog } from '@/hooks/use-debug-log';
+import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+import { ApiCallRecord, formatApiTrace } from '@/lib/api-trace';
+import { LogEntry } from '@/lib/logger';
+
+const MAX_VISIBLE_CALLS = 25;
+
+function formatTimestamp(timestamp: number) {
+  const time = new Intl.DateTimeFormat('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  }).format(new Date(timestamp));
+  return `${time}.${String(timestamp % 1000).padStart(3, '0')}`;
+}
+
+function statusVariant(call: ApiCallRecord): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (call.error) return 'destructive';
+  if (call.status === undefined) return 'outline';
+  return call.status < 400 ? 'default' : 'destructive';
+}
+
+function ApiCallItem({ call }: { call: ApiCallRecord }) {
+  return (
+    <details className="border rounded-md p-2 text-xs">
+      <summary className="cursor-pointer flex items-center gap-2">
+        <Badge variant={statusVariant(call)}>{call.status ?? (call.durationMs === undefined ? '…' : 'ERR')}</Badge>
+        <span className="font-mono font-medium">{call.method}</span>
+        <span className="font-mono truncate flex-1" title={call.url}>{call.endpoint}</span>
+        <span className="text-muted-foreground">
+          {call.durationMs !== undefined ? `${call.durationMs}ms` : 'pending'}
+        </span>
+      </summary>
+      <div className="mt-2 space-y-2">
+        <div className="text-muted-foreground">{formatTimestamp(call.startedAt)} • <span className="font-mono break-all">{call.url}</span></div>
+        {call.error && <div className="text-destructive">{call.error}</div>}
+        {call.requestBody !== undefined && (
+          <div>
+            <div className="text-muted-foreground">Request</div>
+            <pre className="bg-muted/50 p-2 rounded overflow-auto max-h-40">{JSON.stringify(call.requestBody, null, 2)}</pre>
+          </div>
+        )}
+        {call.responseBody !== undefined && (
+          <div>
+            <div className="text-muted-foreground">Response</div>
+            <pre className="bg-muted/50 p-2 rounded overflow-auto max-h-60">{JSON.stringify(call.responseBody, null, 2)}</pre>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function LogEntryItem({ entry }: { entry: LogEntry }) {
+  const levelClass = entry.level === 'error'
+    ? 'text-destructive'
+    : entry.level === 'warn'
+      ? 'text-yellow-600'
+      : 'text-muted-foreground';
+
+  return (
+    <div className="font-mono text-xs py-1 border-b last:border-b-0">
+      <span className="text-muted-foreground">{formatTimestamp(entry.timestamp)}</span>{' '}
+      <span className={`uppercase ${levelClass}`}>{entry.level}</span>{' '}
+      <span className="text-accent">[{entry.namespace}]</span>{' '}
+      <span className="break-all">{entry.message}</span>
+      {entry.data !== undefined && (
+        <pre className="text-muted-foreground whitespace-pre-wrap break-all">{JSON.stringify(entry.data)}</pre>
+      )}
+    </div>
+  );
+}
+
+export function DebugLogDrawer() {
+  const { apiCalls, logEntries, clear } = useDebugLog();
+  const { copied, copy } = useCopyToClipboard();
+
+  const visibleCalls = apiCalls.slice(-MAX_VISIBLE_CALLS).reverse();
+
+  const copyTrace = () => copy(formatApiTrace(apiCalls), 'the API trace');
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="fixed bottom-4 right-4 z-40">
+          <Bug className="h-4 w-4" />
+          Debug log
+          {apiCalls.length > 0 && <Badge variant="secondary">{apiCalls.length}</Badge>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>Debug log</SheetTitle>
+          <SheetDescription>
+            Recent Relay API calls and log messages. Wallet addresses and credentials are redacted.
+          </SheetDescription>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={copyTrace} disabled={apiCalls.length === 0}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? 'Copied' : 'Copy trace'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={clear}>
+              <Trash className="h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+        </SheetHeader>
+        <Tabs defaultValue="calls" className="flex-1 min-h-0 px-4 pb-4">
+          <TabsList>
+            <TabsTrigger value="calls">API calls ({apiCalls.length})</TabsTrigger>
+            <TabsTrigger value="logs">Logs ({logEntries.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="calls" className="min-h-0">
+            <ScrollArea className="h-[calc(100vh-14rem)]">
+              <div className="space-y-2 pr-3">
+                {visibleCalls.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No API calls yet.</p>
+                ) : (
+                  visibleCalls.map(call => <ApiCallItem key={call.id} call={call} />)
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="logs" className="min-h-0">
+            <ScrollArea className="h-[calc(100vh-14rem)]">
+              <div className="pr-3">
+                {logEntries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No log messages yet.</p>
+                ) : (
+                  [...logEntries].reverse().map(entry => <LogEntryItem key={entry.id} entry={entry} />)
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Globe } from '@phosphor-icons/react';
+import { RELAY_ENVIRONMENTS, RelayEnvironment, RelayEnvironmentId, isValidApiBaseUrl } from '@/lib/environments';
+import { ALL_CHAINS_RPC_KEY, getRpcOverrides, setRpcOverride } from '@/lib/rpc';
+
+interface EnvironmentSelectorProps {
+  environment: RelayEnvironment;
+  environmentId: RelayEnvironmentId;
+  customApiUrl: string;
+  onEnvironmentChange: (id: RelayEnvironmentId) => void;
+  onCustomApiUrlChange: (url: string) => void;
+  disabled?: boolean;
+}
+
+export function EnvironmentSelector({
+  environment,
+  environmentId,
+  customApiUrl,
+  onEnvironmentChange,
+  onCustomApiUrlChange,
+  disabled = false,
+}: EnvironmentSelectorProps) {
+  const [draftUrl, setDraftUrl] = useState(customApiUrl);
+  // Stored in localStorage rather than KV so preflight can read it synchronously
+  const [rpcOverride, setRpcOverrideState] = useState(() => getRpcOverrides()[ALL_CHAINS_RPC_KEY] ?? '');
+  const [draftRpcUrl, setDraftRpcUrl] = useState(rpcOverride);
+
+  useEffect(() => {
+    setDraftUrl(customApiUrl);
+  }, [customApiUrl]);
+
+  const isDraftValid = !draftUrl || isValidApiBaseUrl(draftUrl);
+
+  const commitDraft = () => {
+    if (draftUrl !== customApiUrl && isValidApiBaseUrl(draftUrl)) {
+      onCustomApiUrlChange(draftUrl.trim());
+    }
+  };
+
+  const isDraftRpcValid = !draftRpcUrl || isValidApiBaseUrl(draftRpcUrl);
+
+  const commitRpcDraft = () => {
+    const url = draftRpcUrl.trim();
+    if (url !== rpcOverride && (!url || isValidApiBaseUrl(url))) {
+      setRpcOverride(ALL_CHAINS_RPC_KEY, url);
+      setRpcOverrideState(url);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <Globe className="h-4 w-4 text-muted-foreground" />
+        <span className="text-muted-foreground">Relay environment:</span>
+        <Select
+          value={environmentId}
+          onValueChange={(value) => onEnvironmentChange(value as RelayEnvironmentId)}
+          disabled={disabled}
+        >
+          <SelectTrigger size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(RELAY_ENVIRONMENTS).map(env => (
+              <SelectItem key={env.id} value={env.id}>{env.label}</SelectItem>
+            ))}
+            <SelectItem value="custom">Custom URL</SelectItem>
+          </SelectContent>
+        </Select>
+        <code className="bg-muted px-1 rounded text-xs truncate">{environment.apiBaseUrl}</code>
+      </div>
+
+      {environmentId === 'custom' && (
+        <div className="space-y-1">
+          <Input
+            type="url"
+            placeholder="http://localhost:3000"
+            value={draftUrl}
+            onChange={(e) => setDraftUrl(e.target.value)}
+            onBlur={commitDraft}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitDraft();
+            }}
+            disabled={disabled}
+            aria-invalid={!isDraftValid}
+            className="font-mono text-sm"
+          />
+          {!isDraftValid ? (
+            <p className="text-xs text-destructive">Enter an http:// or https:// base URL</p>
+          ) : !customApiUrl && (
+            <p className="text-xs text-muted-foreground">Using mainnet until a custom URL is set</p>
+          )}
+        </div>
+      )}
+
+      <details className="text-xs" open={!!rpcOverride}>
+        <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+          Preflight RPC node{rpcOverride && <> • <code className="bg-muted px-1 rounded">{rpcOverride}</code></>}
+        </summary>
+        <div className="space-y-1 mt-1">
+          <Input
+            type="url"
+            placeholder="Each chain's own RPC, e.g. http://localhost:8545 for a local node"
+            value={draftRpcUrl}
+            onChange={(e) => setDraftRpcUrl(e.target.value)}
+            onBlur={commitRpcDraft}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRpcDraft();
+            }}
+            aria-invalid={!isDraftRpcValid}
+            className="font-mono text-sm"
+          />
+          {isDraftRpcValid ? (
+            <p className="text-muted-foreground">Used for every chain's pre-index checks and chain lookups. Leave empty to use each chain's own RPC.</p>
+          ) : (
+            <p className="text-destructive">Enter an http:// or https:// URL</p>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+}
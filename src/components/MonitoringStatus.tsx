@@ -2,15 +2,35 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { ArrowClockwise, ArrowSquareOut, Clock, CheckCircle, XCircle, CircleNotch } from '@phosphor-icons/react';
+import { ArrowClockwise, ArrowSquareOut, Check, CircleNotch, LinkSimple } from '@phosphor-icons/react';
 import { MonitoringState } from '@/lib/types';
+import { RetryAttempt } from '@/lib/retry';
+import { relayApi } from '@/lib/relay-api';
+import { RelayApiError, getErrorGuidance } from '@/lib/errors';
+import { getAggregateStatus, getEntryStatuses } from '@/lib/request-status';
+import { cn } from '@/lib/utils';
+import { StatusTimeline } from '@/components/StatusTimeline';
+import { StatusBadge } from '@/components/StatusBadge';
+import { ChainLabel } from '@/components/ChainLabel';
+import { TxHashLink } from '@/components/TxHashLink';
+import { RequestBreakdown } from '@/components/RequestBreakdown';
+import { PayloadInspector } from '@/components/PayloadInspector';
+import { PayloadSnapshots, getPayloadKey } from '@/hooks/use-transaction-monitoring';
+import { useChains } from '@/hooks/use-chains';
+import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+import { getRouteUrl } from '@/lib/routes';
+import { DEFAULT_ENVIRONMENT } from '@/lib/environments';
 
 interface MonitoringStatusProps {
   monitoringState: MonitoringState;
   onManualRefresh: () => void;
   onStopMonitoring: () => void;
   isLoading: boolean;
+  error?: RelayApiError | null;
   pollCount?: number;
+  lastRetry?: RetryAttempt | null;
+  onSelectRequest?: (requestId: string) => void;
+  payloads?: PayloadSnapshots;
 }
 
 export function MonitoringStatus({ 
@@ -18,16 +38,45 @@ export function MonitoringStatus({
   onManualRefresh, 
   onStopMonitoring, 
   isLoading,
-  pollCount = 0
+  error = null,
+  pollCount = 0,
+  lastRetry = null,
+  onSelectRequest,
+  payloads = {},
 }: MonitoringStatusProps) {
   const { 
     transactionHash, 
+    chainId,
     requestId, 
     transactionDetails, 
     lastChecked, 
-    isMonitoring 
+    isMonitoring,
+    timedOut,
+    timeline,
+    matchingRequests,
+    apiBaseUrl = relayApi.environment.apiBaseUrl,
   } = monitoringState || {};
 
+  const apiHost = apiBaseUrl.replace(/^https?:\/\//, '');
+  const { getChain } = useChains();
+  const originChain = getChain(transactionDetails?.originChainId);
+  const destinationChain = getChain(transactionDetails?.destinationChainId);
+  const selectedRequest = matchingRequests?.find(request => request.id === requestId);
+  const { copied: linkCopied, copy } = useCopyToClipboard();
+
+  // Shareable #/tx/<chainId>/<hash> link that reopens this monitor; pinned to the entry's
+  // environment unless that is the default one
+  const copyLink = async () => {
+    if (!transactionHash || chainId === undefined) return;
+    await copy(getRouteUrl({
+      kind: 'tx',
+      chainId,
+      hash: transactionHash,
+      reindex: false,
+      apiBaseUrl: apiBaseUrl !== DEFAULT_ENVIRONMENT.apiBaseUrl ? apiBaseUrl : undefined,
+    }), 'the link');
+  };
+
   const formatTime = (date: Date | string | null | undefined) => {
     if (!date) return 'Never';
     
@@ -50,19 +99,12 @@ export function MonitoringStatus({
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
+  const statuses = monitoringState ? getEntryStatuses(monitoringState) : [];
+  const aggregateStatus = getAggregateStatus(statuses);
+
   const getStatusBadge = () => {
-    if (requestId && transactionDetails) {
-      const status = transactionDetails.status;
-      switch (status) {
-        case 'success':
-          return <Badge variant="default" className="bg-accent text-accent-foreground"><CheckCircle className="mr-1 h-3 w-3" />Completed</Badge>;
-        case 'pending':
-          return <Badge variant="secondary"><Clock className="mr-1 h-3 w-3" />Pending</Badge>;
-        case 'failed':
-          return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Failed</Badge>;
-        default:
-          return <Badge variant="outline">Unknown</Badge>;
-      }
+    if (requestId && aggregateStatus) {
+      return <StatusBadge status={aggregateStatus} />;
     }
     return <Badge variant="secondary"><CircleNotch className="mr-1 h-3 w-3 animate-spin" />Indexing</Badge>;
   };
@@ -74,8 +116,9 @@ export function MonitoringStatus({
           <div className="flex items-center justify-between">
             <div>
               <CardTitle className="text-lg">Transaction Status</CardTitle>
-              <CardDescription className="font-mono text-xs">
-                {transactionHash || 'Loading...'}
+              <CardDescription className="flex flex-wrap items-center gap-2 text-xs">
+                {chainId !== undefined && <ChainLabel chainId={chainId} chain={getChain(chainId)} />}
+                {transactionHash ? <TxHashLink hash={transactionHash} chain={getChain(chainId)} truncate={false} /> : 'Loading...'}
               </CardDescription>
             </div>
             {getStatusBadge()}
@@ -100,6 +143,15 @@ export function MonitoringStatus({
                 )}
                 Refresh
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={copyLink}
+                disabled={!transactionHash || chainId === undefined}
+              >
+                {linkCopied ? <Check className="h-4 w-4" /> : <LinkSimple className="h-4 w-4" />}
+                {linkCopied ? 'Copied' : 'Copy link'}
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -110,6 +162,78 @@ export function MonitoringStatus({
             </div>
           </div>
 
+          {statuses.length > 1 && (
+            <div className="space-y-2">
+              <div className="text-sm text-muted-foreground">
+                {statuses.length} Relay requests match this transaction
+                {matchingRequests && matchingRequests.length > statuses.length && ` (${matchingRequests.length - statuses.length} not tracked)`}
+              </div>
+              <div className="divide-y border rounded-md">
+                {statuses.map(details => (
+                  <div
+                    key={details.requestId}
+                    className={cn('flex flex-wrap items-center justify-between gap-2 p-2 text-sm', details.requestId === requestId && 'bg-muted/50')}
+                  >
+                    <span className="font-mono text-xs" title={details.requestId}>{formatAddress(details.requestId)}</span>
+                    <div className="flex items-center gap-2">
+                      <StatusBadge status={details.status} />
+                      <Button
+                        variant={details.requestId === requestId ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => onSelectRequest?.(details.requestId)}
+                        disabled={!onSelectRequest}
+                      >
+                        Details
+                      </Button>
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={relayApi.getTransactionUrl(details.requestId, apiBaseUrl)} target="_blank" rel="noopener noreferrer" title="View on Relay">
+                          <ArrowSquareOut className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md space-y-1">
+              <div>{error.message}</div>
+              <div className="text-xs text-muted-foreground">{getErrorGuidance(error)}</div>
+            </div>
+          )}
+
+          {lastRetry && (
+            <div className="p-3 text-xs bg-yellow-500/10 border border-yellow-500/20 rounded-md space-y-1">
+              <div className="font-medium text-foreground">
+                Retrying <code className="bg-muted px-1 rounded">{lastRetry.endpoint.split('?')[0]}</code>
+                {' '}(attempt {lastRetry.attempt + 1} of {lastRetry.maxAttempts}) in {(lastRetry.delayMs / 1000).toFixed(1)}s
+              </div>
+              <div className="text-muted-foreground">{lastRetry.error.message}</div>
+            </div>
+          )}
+
+          {isMonitoring && requestId && transactionDetails && (
+            <div className="p-3 bg-muted/30 rounded-lg text-sm text-muted-foreground">
+              <CircleNotch className="inline mr-2 h-4 w-4 animate-spin" />
+              {statuses.length > 1 ? 'Requests are' : 'Request is'} <span className="font-medium text-foreground">{aggregateStatus}</span> — polling until {statuses.length > 1 ? 'each one succeeds' : 'it succeeds'}, fails or is refunded
+            </div>
+          )}
+
+          {timedOut && (
+            <div className="p-3 text-sm bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+              Stopped polling: no final status before the monitoring deadline. Use Refresh to check again.
+            </div>
+          )}
+
+          {timeline && timeline.length > 0 && (
+            <>
+              <Separator />
+              <StatusTimeline timeline={timeline} isMonitoring={isMonitoring} />
+            </>
+          )}
+
           {isMonitoring && !requestId && (
             <div className="p-4 bg-muted/30 rounded-lg space-y-2">
               <p className="text-sm text-muted-foreground">
@@ -122,7 +246,7 @@ export function MonitoringStatus({
                 )}
               </p>
               <div className="text-xs text-muted-foreground space-y-1">
-                <div>Poll #{pollCount + 1} • Endpoint: <code className="bg-muted px-1 rounded">api.relay.link/requests?hash={transactionHash?.slice(0, 10)}...</code></div>
+                <div>Poll #{pollCount + 1} • Endpoint: <code className="bg-muted px-1 rounded">{apiHost}/requests?hash={transactionHash?.slice(0, 10)}...</code></div>
                 <div>
                   {pollCount < 30 ? (
                     <span className="text-accent">⚡ Fast polling during indexing phase</span>
@@ -141,10 +265,10 @@ export function MonitoringStatus({
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
-              <CardTitle className="text-lg">Transaction Details</CardTitle>
+              <CardTitle className="text-lg">{statuses.length > 1 ? `Request ${formatAddress(requestId)}` : 'Transaction Details'}</CardTitle>
               <Button asChild>
                 <a
-                  href={`https://relay.link/transaction/${requestId}`}
+                  href={relayApi.getTransactionUrl(requestId, apiBaseUrl)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex items-center gap-2"
@@ -161,16 +285,14 @@ export function MonitoringStatus({
                 <h3 className="font-semibold text-primary">Origin Chain</h3>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Chain ID:</span>
-                    <span className="font-mono">{transactionDetails.originChainId}</span>
+                    <span className="text-muted-foreground">Chain:</span>
+                    <ChainLabel chainId={transactionDetails.originChainId} chain={originChain} showId />
                   </div>
                   {transactionDetails.inTxHashes && transactionDetails.inTxHashes.length > 0 && (
                     <div className="space-y-1">
                       <span className="text-muted-foreground">Input Transaction(s):</span>
                       {transactionDetails.inTxHashes.map((hash, idx) => (
-                        <p key={idx} className="font-mono text-xs break-all" title={hash}>
-                          {hash.slice(0, 10)}...{hash.slice(-8)}
-                        </p>
+                        <div key={idx}><TxHashLink hash={hash} chain={originChain} /></div>
                       ))}
                     </div>
                   )}
@@ -181,16 +303,14 @@ export function MonitoringStatus({
                 <h3 className="font-semibold text-primary">Destination Chain</h3>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Chain ID:</span>
-                    <span className="font-mono">{transactionDetails.destinationChainId}</span>
+                    <span className="text-muted-foreground">Chain:</span>
+                    <ChainLabel chainId={transactionDetails.destinationChainId} chain={destinationChain} showId />
                   </div>
                   {transactionDetails.txHashes && transactionDetails.txHashes.length > 0 && (
                     <div className="space-y-1">
                       <span className="text-muted-foreground">Output Transaction(s):</span>
                       {transactionDetails.txHashes.map((hash, idx) => (
-                        <p key={idx} className="font-mono text-xs break-all" title={hash}>
-                          {hash.slice(0, 10)}...{hash.slice(-8)}
-                        </p>
+                        <div key={idx}><TxHashLink hash={hash} chain={destinationChain} /></div>
                       ))}
                     </div>
                   )}
@@ -198,6 +318,13 @@ export function MonitoringStatus({
               </div>
             </div>
 
+            {selectedRequest && (
+              <>
+                <Separator />
+                <RequestBreakdown request={selectedRequest} />
+              </>
+            )}
+
             <Separator />
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
@@ -218,6 +345,11 @@ export function MonitoringStatus({
                 <p className="capitalize">{transactionDetails.status}</p>
               </div>
             </div>
+
+            <PayloadInspector
+              statusPayload={payloads[getPayloadKey('status', requestId)]}
+              requestPayload={payloads[getPayloadKey('request', requestId)]}
+            />
           </CardContent>
         </Card>
       )}
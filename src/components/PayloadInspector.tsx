@@ -0,0 +1,158 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Check, Code, Copy } from '@phosphor-icons/react';
+import { JsonChange, PayloadSnapshot, childPath } from '@/lib/json-diff';
+import { cn } from '@/lib/utils';
+import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+
+interface PayloadInspectorProps {
+  statusPayload?: PayloadSnapshot; // /intents/status/v3
+  requestPayload?: PayloadSnapshot; // /requests entry; only fetched while IDs are unknown and once a request finishes
+}
+
+type TokenKind = 'string' | 'number' | 'boolean' | 'null' | 'punctuation';
+
+interface JsonLine {
+  depth: number;
+  path: string;
+  key?: string;
+  text: string;
+  kind: TokenKind;
+  comma: boolean;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  string: 'text-green-600',
+  number: 'text-blue-500',
+  boolean: 'text-orange-500',
+  null: 'text-orange-500',
+  punctuation: 'text-muted-foreground',
+};
+
+// Flattens a value into pretty-printed lines that remember their JSON path for highlighting
+function toJsonLines(value: unknown, path: string, depth: number, key: string | undefined, comma: boolean): JsonLine[] {
+  const line = (text: string, kind: TokenKind, lineKey = key, lineComma = comma): JsonLine => (
+    { depth, path, key: lineKey, text, kind, comma: lineComma }
+  );
+
+  if (Array.isArray(value) || (typeof value === 'object' && value !== null)) {
+    const entries: [string | number, unknown][] = Array.isArray(value)
+      ? value.map((item, index) => [index, item])
+      : Object.entries(value as Record<string, unknown>);
+    const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+    if (entries.length === 0) return [line(`${open}${close}`, 'punctuation')];
+
+    return [
+      line(open, 'punctuation', key, false),
+      ...entries.flatMap(([childKey, child], index) => toJsonLines(
+        child,
+        childPath(path, childKey),
+        depth + 1,
+        typeof childKey === 'string' ? childKey : undefined,
+        index < entries.length - 1,
+      )),
+      { ...line(close, 'punctuation', undefined), depth },
+    ];
+  }
+
+  if (typeof value === 'string') return [line(JSON.stringify(value), 'string')];
+  if (typeof value === 'number') return [line(String(value), 'number')];
+  if (typeof value === 'boolean') return [line(String(value), 'boolean')];
+  return [line('null', 'null')];
+}
+
+const formatValue = (value: unknown) => (value === undefined ? '—' : JSON.stringify(value));
+
+function ChangeList({ changes }: { changes: JsonChange[] }) {
+  return (
+    <ul className="space-y-0.5 font-mono text-xs">
+      {changes.map(change => (
+        <li key={`${change.kind}:${change.path}`} className="break-all">
+          <Badge variant="outline" className={cn('mr-1', change.kind === 'removed' ? 'text-destructive' : change.kind === 'added' ? 'text-green-600' : 'text-yellow-600')}>
+            {change.kind}
+          </Badge>
+          <span className="font-medium">{change.path || '(root)'}</span>
+          {change.kind === 'changed' && <>: {formatValue(change.before)} → {formatValue(change.after)}</>}
+          {change.kind === 'added' && <>: {formatValue(change.after)}</>}
+          {change.kind === 'removed' && <>: was {formatValue(change.before)}</>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function PayloadView({ snapshot }: { snapshot?: PayloadSnapshot }) {
+  const { copied, copy } = useCopyToClipboard();
+
+  if (!snapshot) {
+    return <p className="text-xs text-muted-foreground">Nothing received yet. Payloads are captured from the next poll or refresh.</p>;
+  }
+
+  // Added and changed fields light up, along with everything nested under them
+  const changedPaths = snapshot.changes.filter(change => change.kind !== 'removed').map(change => change.path);
+  const isChanged = (path: string) => changedPaths.some(changed => path === changed || path.startsWith(`${changed}.`) || path.startsWith(`${changed}[`));
+  const lines = toJsonLines(snapshot.payload, '', 0, undefined, false);
+
+  const copyPayload = () => copy(JSON.stringify(snapshot.payload, null, 2), 'the payload');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          Received {new Date(snapshot.receivedAt).toLocaleTimeString()}
+          {snapshot.changedAt && ` • last changed ${new Date(snapshot.changedAt).toLocaleTimeString()}`}
+        </span>
+        <Button type="button" variant="outline" size="sm" onClick={copyPayload}>
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          {copied ? 'Copied' : 'Copy JSON'}
+        </Button>
+      </div>
+      {snapshot.changes.length > 0 && (
+        <div className="p-2 border rounded-md space-y-1">
+          <div className="text-xs text-muted-foreground">Changed since the previous poll</div>
+          <ChangeList changes={snapshot.changes} />
+        </div>
+      )}
+      <pre className="bg-muted/50 p-2 rounded overflow-auto max-h-96 text-xs">
+        {lines.map((line, idx) => (
+          <div key={idx} className={cn(line.path && isChanged(line.path) && 'bg-yellow-500/20')} style={{ paddingLeft: `${line.depth * 2}ch` }}>
+            {line.key !== undefined && <span className="text-purple-400">{JSON.stringify(line.key)}</span>}
+            {line.key !== undefined && <span className="text-muted-foreground">: </span>}
+            <span className={TOKEN_CLASSES[line.kind]}>{line.text}</span>
+            {line.comma && <span className="text-muted-foreground">,</span>}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+export function PayloadInspector({ statusPayload, requestPayload }: PayloadInspectorProps) {
+  const changeCount = (statusPayload?.changes.length ?? 0) + (requestPayload?.changes.length ?? 0);
+
+  return (
+    <details className="border rounded-md p-2 text-sm">
+      <summary className="cursor-pointer flex items-center gap-2">
+        <Code className="h-4 w-4" />
+        <span className="font-medium">Raw API responses</span>
+        {changeCount > 0 && <Badge variant="secondary">{changeCount} changed field{changeCount === 1 ? '' : 's'}</Badge>}
+      </summary>
+      <Tabs defaultValue="status" className="mt-2">
+        <TabsList>
+          <TabsTrigger value="status">/intents/status/v3</TabsTrigger>
+          <TabsTrigger value="request">/requests</TabsTrigger>
+        </TabsList>
+        <TabsContent value="status">
+          <PayloadView snapshot={statusPayload} />
+        </TabsContent>
+        <TabsContent value="request" className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Polling only asks /requests for request IDs and for final details once a request finishes, so this can lag behind the status payload.
+          </p>
+          <PayloadView snapshot={requestPayload} />
+        </TabsContent>
+      </Tabs>
+    </details>
+  );
+}
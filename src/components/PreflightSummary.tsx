@@ -0,0 +1,98 @@
+import { formatDistanceToNowStrict } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle, Clock, Question, CircleNotch, CloudSlash } from '@phosphor-icons/react';
+import { TransactionPreflight } from '@/lib/preflight';
+import { TransactionClassification } from '@/lib/relay-contracts';
+
+interface PreflightSummaryProps {
+  preflight: TransactionPreflight | null;
+  isLoading: boolean;
+}
+
+function PreflightBadge({ preflight }: { preflight: TransactionPreflight }) {
+  switch (preflight.status) {
+    case 'success':
+      return <Badge variant="default" className="bg-accent text-accent-foreground"><CheckCircle className="mr-1 h-3 w-3" />Succeeded</Badge>;
+    case 'reverted':
+      return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Reverted</Badge>;
+    case 'pending':
+      return <Badge variant="secondary"><Clock className="mr-1 h-3 w-3" />Not mined</Badge>;
+    case 'not-found':
+      return <Badge variant="outline" className="text-destructive"><Question className="mr-1 h-3 w-3" />Not found</Badge>;
+    case 'unsupported':
+      return <Badge variant="outline">Not checked</Badge>;
+    case 'unavailable':
+      return <Badge variant="outline"><CloudSlash className="mr-1 h-3 w-3" />RPC unavailable</Badge>;
+  }
+}
+
+function describeClassification(classification: TransactionClassification): string {
+  switch (classification.kind) {
+    case 'relay-deposit':
+      return `Relay deposit${classification.contractLabel ? ` (${classification.contractLabel})` : ''}`;
+    case 'erc20-approve':
+      return classification.contractLabel ? `Token approval for ${classification.contractLabel}` : 'Token approval';
+    case 'unrelated':
+      return 'Not a Relay transaction';
+  }
+}
+
+export function PreflightSummary({ preflight, isLoading }: PreflightSummaryProps) {
+  if (isLoading || !preflight) {
+    return (
+      <div className="flex items-center gap-2 p-2 text-xs text-muted-foreground border rounded-md">
+        <CircleNotch className="h-4 w-4 animate-spin" />
+        Checking transaction on-chain...
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 text-xs border rounded-md space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-muted-foreground">On-chain check</span>
+        <PreflightBadge preflight={preflight} />
+      </div>
+      {preflight.classification && (
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">Type</span>
+          <span className={preflight.classification.kind === 'relay-deposit' ? undefined : 'text-yellow-600'}>
+            {describeClassification(preflight.classification)}
+          </span>
+        </div>
+      )}
+      {preflight.classification?.requestId && (
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">Request ID</span>
+          <span className="font-mono break-all">{preflight.classification.requestId}</span>
+        </div>
+      )}
+      {preflight.blockNumber !== undefined && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Block</span>
+          <span className="font-mono">
+            {preflight.blockNumber} • {preflight.confirmations} confirmation{preflight.confirmations === 1 ? '' : 's'}
+          </span>
+        </div>
+      )}
+      {preflight.blockTimestamp !== undefined && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Block time</span>
+          <span title={new Date(preflight.blockTimestamp * 1000).toLocaleString()}>
+            {formatDistanceToNowStrict(new Date(preflight.blockTimestamp * 1000), { addSuffix: true })}
+          </span>
+        </div>
+      )}
+      {preflight.to !== undefined && (
+        <div className="flex justify-between gap-2">
+          <span className="text-muted-foreground">To</span>
+          <span className="font-mono break-all">{preflight.to ?? 'Contract creation'}</span>
+        </div>
+      )}
+      {preflight.status === 'unsupported' && (
+        <div className="text-muted-foreground">On-chain checks are only available for EVM chains.</div>
+      )}
+      {preflight.error && <div className="text-muted-foreground">{preflight.error}</div>}
+    </div>
+  );
+}
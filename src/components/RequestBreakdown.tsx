@@ -0,0 +1,86 @@
+import { Badge } from '@/components/ui/badge';
+import { CurrencyAmount, RequestSummary } from '@/lib/types';
+import { BreakdownFee, formatAmount, formatCurrencyAmount, formatUsd, getRequestBreakdown } from '@/lib/request-breakdown';
+
+interface RequestBreakdownProps {
+  request: RequestSummary;
+}
+
+function AmountRow({ label, value }: { label: string; value: CurrencyAmount }) {
+  const usd = formatUsd(value.amountUsd);
+  return (
+    <div className="flex justify-between gap-2">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-right">
+        <span className="inline-flex items-center gap-1.5 font-mono">
+          {value.currency.metadata?.logoURI && <img src={value.currency.metadata.logoURI} alt="" className="h-4 w-4 rounded-full" />}
+          {formatAmount(value)}
+        </span>
+        {usd && <span className="block text-xs text-muted-foreground">{usd}</span>}
+      </span>
+    </div>
+  );
+}
+
+function FeeRow({ item }: { item: BreakdownFee }) {
+  const usd = formatUsd(item.amountUsd);
+  return (
+    <div className="flex justify-between gap-2">
+      <span className="text-muted-foreground">{item.label}</span>
+      <span className="font-mono text-right">
+        {formatCurrencyAmount(item.fee.amount, item.fee.currency)}
+        {usd && <span className="text-muted-foreground"> ({usd})</span>}
+      </span>
+    </div>
+  );
+}
+
+export function RequestBreakdown({ request }: RequestBreakdownProps) {
+  const breakdown = getRequestBreakdown(request.data);
+  const sender = breakdown.sender ?? request.user;
+  const recipient = breakdown.recipient ?? request.recipient;
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6 text-sm">
+      <div className="space-y-2">
+        <h3 className="font-semibold text-primary">Amounts</h3>
+        {breakdown.currencyIn && <AmountRow label="Sent" value={breakdown.currencyIn} />}
+        {breakdown.currencyOut && <AmountRow label="Received" value={breakdown.currencyOut} />}
+        {breakdown.refund && <AmountRow label="Refunded" value={breakdown.refund} />}
+        {!breakdown.currencyIn && !breakdown.currencyOut && (
+          <p className="text-muted-foreground">Relay has not reported currencies for this request yet.</p>
+        )}
+        {sender && (
+          <div className="flex justify-between gap-2">
+            <span className="text-muted-foreground">Sender</span>
+            <span className="font-mono text-xs break-all text-right">{sender}</span>
+          </div>
+        )}
+        {recipient && (
+          <div className="flex justify-between gap-2">
+            <span className="text-muted-foreground">Recipient</span>
+            <span className="font-mono text-xs break-all text-right">{recipient}</span>
+          </div>
+        )}
+        {breakdown.failReason && (
+          <div className="flex justify-between gap-2">
+            <span className="text-muted-foreground">Failure reason</span>
+            <span className="text-destructive text-right">{breakdown.failReason}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold text-primary flex items-center gap-2">
+          Fees
+          {breakdown.subsidized && <Badge variant="secondary">Subsidized</Badge>}
+        </h3>
+        {breakdown.fees.map(item => <FeeRow key={item.label} item={item} />)}
+        {breakdown.appFees.map((item, idx) => <FeeRow key={`app-${idx}`} item={item} />)}
+        {breakdown.fees.length === 0 && breakdown.appFees.length === 0 && (
+          <p className="text-muted-foreground">No fee data reported.</p>
+        )}
+      </div>
+    </div>
+  );
+}
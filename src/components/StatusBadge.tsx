@@ -0,0 +1,30 @@
+import { Badge } from '@/components/ui/badge';
+import { ArrowCounterClockwise, CheckCircle, Clock, WarningCircle, XCircle } from '@phosphor-icons/react';
+
+interface StatusBadgeProps {
+  status: string; // A Relay request status, or an aggregate from getAggregateStatus
+}
+
+export function StatusBadge({ status }: StatusBadgeProps) {
+  switch (status) {
+    case 'success':
+      return <Badge variant="default" className="bg-accent text-accent-foreground"><CheckCircle className="mr-1 h-3 w-3" />Completed</Badge>;
+    case 'waiting':
+      return <Badge variant="secondary"><Clock className="mr-1 h-3 w-3" />Waiting</Badge>;
+    case 'pending':
+      return <Badge variant="secondary"><Clock className="mr-1 h-3 w-3" />Pending</Badge>;
+    case 'submitted':
+      return <Badge variant="secondary"><Clock className="mr-1 h-3 w-3" />Submitted</Badge>;
+    case 'delayed':
+      return <Badge variant="outline" className="text-yellow-600"><Clock className="mr-1 h-3 w-3" />Delayed</Badge>;
+    case 'refund':
+      return <Badge variant="outline"><ArrowCounterClockwise className="mr-1 h-3 w-3" />Refunded</Badge>;
+    case 'failure':
+    case 'failed':
+      return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Failed</Badge>;
+    case 'partial':
+      return <Badge variant="outline" className="text-yellow-600"><WarningCircle className="mr-1 h-3 w-3" />Partially completed</Badge>;
+    default:
+      return <Badge variant="outline" className="capitalize">{status || 'Unknown'}</Badge>;
+  }
+}
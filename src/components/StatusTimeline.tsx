@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceStrict, formatDistanceToNowStrict } from 'date-fns';
+import { TimelineEvent } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { truncateHash } from '@/lib/format';
+
+interface StatusTimelineProps {
+  timeline: TimelineEvent[];
+  isMonitoring: boolean;
+}
+
+const RELATIVE_TIME_REFRESH_MS = 15 * 1000;
+
+// `withRequestId` labels per-request events when several requests match the hash
+function describeEvent(event: TimelineEvent, withRequestId: boolean): { title: string; detail?: string } {
+  const requestLabel = withRequestId && event.requestId ? `${event.requestId.slice(0, 10)}...` : undefined;
+  switch (event.type) {
+    case 'submitted':
+      return { title: 'Transaction submitted', detail: event.txHash && truncateHash(event.txHash) };
+    case 'indexed':
+      return { title: 'Index request accepted' };
+    case 'request-found':
+      return { title: 'Relay request found', detail: event.requestId };
+    case 'status':
+      return { title: `Status: ${event.status}`, detail: requestLabel };
+    case 'destination-tx':
+      return {
+        title: 'Destination transaction seen',
+        detail: [requestLabel, event.txHash && truncateHash(event.txHash)].filter(Boolean).join(' → '),
+      };
+    case 'timed-out':
+      return { title: 'Monitoring deadline passed' };
+  }
+}
+
+function dotClass(event: TimelineEvent): string {
+  if (event.type === 'timed-out') return 'bg-yellow-500';
+  if (event.type !== 'status') return 'bg-primary';
+  if (event.status === 'success') return 'bg-accent';
+  if (event.status === 'failure' || event.status === 'failed') return 'bg-destructive';
+  if (event.status === 'delayed' || event.status === 'refund') return 'bg-yellow-500';
+  return 'bg-muted-foreground';
+}
+
+export function StatusTimeline({ timeline, isMonitoring }: StatusTimelineProps) {
+  // Re-render periodically so relative timestamps stay current
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), RELATIVE_TIME_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (timeline.length === 0) return null;
+
+  const first = new Date(timeline[0].at);
+  const last = new Date(timeline[timeline.length - 1].at);
+  const finished = !isMonitoring;
+  const elapsed = formatDistanceStrict(finished ? last : new Date(now), first);
+  const multipleRequests = timeline.filter(event => event.type === 'request-found').length > 1;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <h3 className="font-semibold text-primary">Timeline</h3>
+        <span className="text-muted-foreground">
+          {finished ? 'Total' : 'Elapsed'}: {elapsed}
+        </span>
+      </div>
+      <ol className="relative border-l border-border ml-1.5 space-y-4">
+        {timeline.map((event, idx) => {
+          const at = new Date(event.at);
+          const previous = idx > 0 ? new Date(timeline[idx - 1].at) : null;
+          const { title, detail } = describeEvent(event, multipleRequests);
+
+          return (
+            <li key={`${event.type}-${event.at}-${idx}`} className="ml-4">
+              <span className={cn('absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background', dotClass(event))} />
+              <div className="flex flex-wrap items-baseline justify-between gap-x-4 text-sm">
+                <span className="font-medium">{title}</span>
+                <span className="text-xs text-muted-foreground" title={at.toLocaleString()}>
+                  {at.toLocaleTimeString()} • {formatDistanceToNowStrict(at, { addSuffix: true })}
+                </span>
+              </div>
+              <div className="flex flex-wrap justify-between gap-x-4 text-xs text-muted-foreground">
+                {detail ? <span className="font-mono break-all">{detail}</span> : <span />}
+                {previous && <span>+{formatDistanceStrict(at, previous)}</span>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClockCounterClockwise, ArrowClockwise, Play, Trash, MagnifyingGlass } from '@phosphor-icons/react';
+import { HistoryEntry } from '@/lib/types';
+import { EMPTY_HISTORY_FILTERS, HistoryFilters, HistoryStatusFilter, filterHistory } from '@/lib/history';
+import { isFinalAggregateStatus } from '@/lib/request-status';
+import { truncateHash } from '@/lib/format';
+import { StatusBadge } from '@/components/StatusBadge';
+import { ChainLabel } from '@/components/ChainLabel';
+import { useChains } from '@/hooks/use-chains';
+
+interface TransactionHistoryProps {
+  history: HistoryEntry[];
+  apiBaseUrl: string; // Current environment; entries from other environments cannot be acted on
+  watchedIds: string[];
+  isLoading: boolean;
+  onReindex: (entry: HistoryEntry) => void;
+  onResume: (entry: HistoryEntry) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const STATUS_FILTERS: { value: HistoryStatusFilter; label: string }[] = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'in-progress', label: 'In progress' },
+  { value: 'success', label: 'Completed' },
+  { value: 'failure', label: 'Failed' },
+  { value: 'refund', label: 'Refunded' },
+  { value: 'partial', label: 'Partially completed' },
+  { value: 'error', label: 'Errored' },
+];
+
+function HistoryStatusBadge({ entry }: { entry: HistoryEntry }) {
+  if (entry.error) return <Badge variant="destructive">Error</Badge>;
+  if (entry.status === undefined) return <Badge variant="outline">No request</Badge>;
+  return <StatusBadge status={entry.status} />;
+}
+
+export function TransactionHistory({
+  history,
+  apiBaseUrl,
+  watchedIds,
+  isLoading,
+  onReindex,
+  onResume,
+  onRemove,
+  onClear,
+}: TransactionHistoryProps) {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const { getChain } = useChains();
+
+  const chainIds = useMemo(
+    () => [...new Set(history.map(entry => entry.chainId).filter((id): id is number => id !== undefined))].sort((a, b) => a - b),
+    [history],
+  );
+  const visible = useMemo(() => filterHistory(history, filters), [history, filters]);
+
+  const updateFilters = (patch: Partial<HistoryFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ClockCounterClockwise weight="bold" />
+            History
+          </CardTitle>
+          {history.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClear}>Clear history</Button>
+          )}
+        </div>
+        <CardDescription>
+          Every transaction submitted from this browser, including ones no longer on the watchlist.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 md:grid-cols-[1fr_auto_auto]">
+          <div className="relative">
+            <MagnifyingGlass className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by transaction hash or request ID"
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              className="pl-8 font-mono text-xs"
+            />
+          </div>
+          <Select
+            value={String(filters.chainId)}
+            onValueChange={(value) => updateFilters({ chainId: value === 'all' ? 'all' : Number(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All chains</SelectItem>
+              {chainIds.map(id => (
+                <SelectItem key={id} value={String(id)}>{getChain(id)?.displayName || `Chain ${id}`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.status}
+            onValueChange={(value) => updateFilters({ status: value as HistoryStatusFilter })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTERS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <span>Submitted between</span>
+          <Input type="date" className="w-auto" value={filters.from ?? ''} onChange={(e) => updateFilters({ from: e.target.value || undefined })} />
+          <span>and</span>
+          <Input type="date" className="w-auto" value={filters.to ?? ''} onChange={(e) => updateFilters({ to: e.target.value || undefined })} />
+          {filters !== EMPTY_HISTORY_FILTERS && (
+            <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_HISTORY_FILTERS)}>Reset filters</Button>
+          )}
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {history.length === 0 ? 'No transactions submitted yet.' : 'No transactions match these filters.'}
+          </p>
+        ) : (
+          <div className="border rounded-md max-h-[32rem] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transaction</TableHead>
+                  <TableHead>Chain</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(entry => {
+                  const otherEnvironment = entry.apiBaseUrl !== apiBaseUrl;
+                  const watched = watchedIds.includes(entry.id);
+                  const actionTitle = otherEnvironment ? `Switch to ${entry.apiBaseUrl} to use this entry` : undefined;
+
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-mono text-xs whitespace-normal">
+                        <div title={entry.transactionHash}>
+                          {truncateHash(entry.transactionHash)}
+                        </div>
+                        {entry.requestId && (
+                          <div className="text-muted-foreground break-all" title={entry.requestId}>{entry.requestId}</div>
+                        )}
+                        {entry.error && <div className="text-destructive font-sans">{entry.error}</div>}
+                        {otherEnvironment && <div className="text-muted-foreground font-sans">{entry.apiBaseUrl}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs"><ChainLabel chainId={entry.chainId} chain={getChain(entry.chainId)} /></TableCell>
+                      <TableCell><HistoryStatusBadge entry={entry} /></TableCell>
+                      <TableCell className="text-xs text-muted-foreground" title={entry.completedAt && `Finished ${format(new Date(entry.completedAt), 'PPpp')}`}>
+                        {format(new Date(entry.submittedAt), 'PP p')}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onReindex(entry)}
+                            disabled={isLoading || otherEnvironment || entry.chainId === undefined}
+                            title={actionTitle ?? 'Index again and monitor'}
+                          >
+                            <ArrowClockwise className="h-4 w-4" />
+                            Re-index
+                          </Button>
+                          {!isFinalAggregateStatus(entry.status) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => onResume(entry)}
+                              disabled={watched || otherEnvironment}
+                              title={watched ? 'Already on the watchlist' : actionTitle ?? 'Monitor without re-indexing'}
+                            >
+                              <Play className="h-4 w-4" />
+                              Resume
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" onClick={() => onRemove(entry.id)} title="Remove from history">
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
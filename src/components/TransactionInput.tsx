@@ -1,70 +1,141 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Link, CircleNotch, Info } from '@phosphor-icons/react';
-import { relayApi } from '@/lib/relay-api';
+import { Link, CircleNotch, Info, Warning } from '@phosphor-icons/react';
+import { ChainDetection, relayApi } from '@/lib/relay-api';
+import { createLogger } from '@/lib/logger';
+import { RelayApiError, RelayContractError, RelayHttpError, getErrorGuidance, isAbortError } from '@/lib/errors';
+import { RetryAttempt } from '@/lib/retry';
+import { TransactionPreflight, findTransactionChains, getPreflightWarning, preflightTransaction } from '@/lib/preflight';
+import { PreflightSummary } from '@/components/PreflightSummary';
+import { ChainPicker } from '@/components/ChainPicker';
+import { ChainLabel } from '@/components/ChainLabel';
+
+const log = createLogger('transaction-input');
 
 interface TransactionInputProps {
-  onSubmit: (url: string) => void;
+  onSubmit: (url: string, chainId?: number) => Promise<boolean>;
   isLoading: boolean;
-  error: string | null;
+  error: RelayApiError | null;
+  retry?: RetryAttempt | null; // Pending retry of the index request while submitting
 }
 
-export function TransactionInput({ onSubmit, isLoading, error }: TransactionInputProps) {
+export function TransactionInput({ onSubmit, isLoading, error, retry = null }: TransactionInputProps) {
   const [url, setUrl] = useState('');
-  const [detectedChain, setDetectedChain] = useState<{chainId: number, hash: string} | null>(null);
+  const [detection, setDetection] = useState<ChainDetection | null>(null);
+  const [pickedChainId, setPickedChainId] = useState<number | null>(null);
+  const [foundChainIds, setFoundChainIds] = useState<number[]>([]);
+  const [isProbing, setIsProbing] = useState(false);
   const [supportedChains, setSupportedChains] = useState<string[]>([]);
+  const [preflight, setPreflight] = useState<TransactionPreflight | null>(null);
+  const [isPreflighting, setIsPreflighting] = useState(false);
+  const [warningAcknowledged, setWarningAcknowledged] = useState(false);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     // Load supported chains on component mount
     const loadSupportedChains = async () => {
       try {
-        const chains = await relayApi.getSupportedChainNames();
+        const chains = await relayApi.getSupportedChainNames({ signal: controller.signal });
         setSupportedChains(chains);
       } catch (error) {
-        console.error('Failed to load supported chains:', error);
+        if (isAbortError(error)) return;
+        log.error('Failed to load supported chains', error);
         // Fallback to static list
         setSupportedChains(['Ethereum', 'Polygon', 'Arbitrum', 'Base', 'BSC', 'Optimism']);
       }
     };
     
     loadSupportedChains();
+    return () => controller.abort();
   }, []);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const detectChainAndHash = async () => {
+      setDetection(null);
+      setPickedChainId(null);
+      setFoundChainIds([]);
+      setWarningAcknowledged(false);
       if (!url.trim()) {
-        setDetectedChain(null);
         return;
       }
 
       try {
-        const hash = relayApi.extractTxHashFromUrl(url.trim());
-        if (hash) {
-          const chainId = await relayApi.getChainIdFromUrl(url.trim());
-          if (chainId) {
-            setDetectedChain({ chainId, hash });
-          } else {
-            setDetectedChain(null);
-          }
-        } else {
-          setDetectedChain(null);
+        const detected = await relayApi.detectChains(url.trim(), { signal: controller.signal, resolveRequestIds: true });
+        setDetection(detected);
+
+        // A bare EVM hash could be on any EVM chain; ask their RPC nodes and preselect a hit
+        if (detected.source === 'hash' && detected.hash?.startsWith('0x') && detected.candidates.length > 1) {
+          setIsProbing(true);
+          const found = await findTransactionChains(detected.candidates, detected.hash, { signal: controller.signal });
+          setFoundChainIds(found);
+          setPickedChainId(prev => prev ?? found[0] ?? null);
+          setIsProbing(false);
         }
       } catch (error) {
-        console.warn('Error detecting chain:', error);
-        setDetectedChain(null);
+        if (isAbortError(error)) return;
+        log.warn('Error detecting chain', error);
+        setDetection(null);
+        setIsProbing(false);
       }
     };
 
     const timeoutId = setTimeout(detectChainAndHash, 500);
-    return () => clearTimeout(timeoutId);
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+      setIsProbing(false);
+    };
   }, [url]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const hash = detection?.hash ?? null;
+  const candidates = detection?.candidates ?? [];
+  const chainId = candidates.length === 1 ? candidates[0].id : pickedChainId;
+  const chain = candidates.find(candidate => candidate.id === chainId);
+
+  useEffect(() => {
+    setPreflight(null);
+    setWarningAcknowledged(false);
+    if (!hash || !chain) return;
+
+    const controller = new AbortController();
+    setIsPreflighting(true);
+    preflightTransaction(chain, hash, { signal: controller.signal })
+      .then(result => {
+        setPreflight(result);
+        setIsPreflighting(false);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        log.warn('Preflight failed', error);
+        setIsPreflighting(false);
+      });
+
+    return () => {
+      controller.abort();
+      setIsPreflighting(false);
+    };
+  }, [hash, chain]);
+
+  const preflightWarning = preflight ? getPreflightWarning(preflight) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    // The first submit only surfaces the on-chain warning; the second one indexes anyway
+    if (preflightWarning && !warningAcknowledged) {
+      setWarningAcknowledged(true);
+      return;
+    }
     if (url.trim()) {
-      onSubmit(url.trim());
+      const added = await onSubmit(url.trim(), chainId ?? undefined);
+      if (added) {
+        setUrl('');
+      }
     }
   };
 
@@ -90,7 +161,7 @@ export function TransactionInput({ onSubmit, isLoading, error }: TransactionInpu
           </div>
           <div className="text-accent font-medium">📋 How to use:</div>
           <div>Step 1: Copy the transaction hash from your Relay Protocol bridge transaction</div>
-          <div>Step 2: Enter the blockchain explorer URL containing that transaction hash</div>
+          <div>Step 2: Enter the blockchain explorer URL containing that transaction hash, or a relay.link transaction link / request ID</div>
           <div>Step 3: Click "Index Transaction" to force fresh indexing of your transaction</div>
           <div>Step 4: Monitor real-time status as the transaction gets re-indexed and processed</div>
           <div className="text-purple-400 text-xs">✨ Supports {supportedChains.length > 0 ? supportedChains.slice(0, 4).join(', ') + (supportedChains.length > 4 ? ', and more!' : '!') : 'multiple blockchains!'}</div>
@@ -100,12 +171,12 @@ export function TransactionInput({ onSubmit, isLoading, error }: TransactionInpu
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <label htmlFor="transaction-url" className="text-sm font-medium">
-              Transaction URL
+              Transaction URL or Relay request
             </label>
             <Input
               id="transaction-url"
-              type="url"
-              placeholder="https://etherscan.io/tx/0x1234... or just paste transaction hash"
+              type="text"
+              placeholder="https://etherscan.io/tx/0x1234..., https://relay.link/transaction/0xabcd..., or a transaction hash or request ID"
               value={url}
               onChange={(e) => setUrl(e.target.value)}
               disabled={isLoading}
@@ -114,21 +185,103 @@ export function TransactionInput({ onSubmit, isLoading, error }: TransactionInpu
             <p className="text-xs text-muted-foreground">
               Supported: {supportedChains.length > 0 ? supportedChains.slice(0, 6).join(', ') + (supportedChains.length > 6 ? ', and more' : '') : 'Loading supported chains...'}
             </p>
-            {detectedChain && (
+            {detection?.source === 'request' && (
+              <div className="p-2 text-xs border rounded-md space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">Relay request</span>
+                  {detection.requestStatus && (
+                    <Badge variant="outline" className="capitalize">{detection.requestStatus.status}</Badge>
+                  )}
+                </div>
+                <div className="font-mono break-all">{detection.requestId}</div>
+                {hash ? (
+                  <div className="text-muted-foreground">
+                    Re-indexing will submit its origin transaction
+                    {(detection.requestStatus?.inTxHashes.length ?? 0) > 1 && ` (the first of ${detection.requestStatus?.inTxHashes.length})`}.
+                  </div>
+                ) : (
+                  <div className="text-yellow-600">
+                    {detection.requestStatus
+                      ? 'Relay has not seen an origin transaction for this request yet. Paste the deposit transaction instead.'
+                      : 'Relay does not know this request ID.'}
+                  </div>
+                )}
+              </div>
+            )}
+            {detection?.wrongEnvironment && (
+              <div className="flex items-start gap-2 p-2 text-xs bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+                <Warning className="h-4 w-4 text-yellow-600 shrink-0" />
+                <span>This explorer link is for {detection.wrongEnvironment}. Switch to the {detection.wrongEnvironment} environment to index it.</span>
+              </div>
+            )}
+            {hash && candidates.length > 1 && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {detection?.source === 'explorer'
+                    ? `This explorer is shared by ${candidates.length} chains. Pick the one the transaction is on.`
+                    : isProbing
+                      ? 'Looking for this transaction on every EVM chain...'
+                      : foundChainIds.length > 0
+                        ? `Found on ${foundChainIds.length} chain${foundChainIds.length === 1 ? '' : 's'}. Check the selection before indexing.`
+                        : 'Pick the chain this transaction is on.'}
+                </p>
+                <ChainPicker
+                  chains={candidates}
+                  value={pickedChainId}
+                  onChange={setPickedChainId}
+                  foundChainIds={foundChainIds}
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+            {hash && chainId !== null && (
               <div className="flex items-center gap-2 p-2 bg-accent/10 border border-accent/20 rounded-md">
                 <Info className="h-4 w-4 text-accent" />
                 <span className="text-xs text-foreground">
-                  Detected: Chain ID <code className="bg-muted px-1 rounded font-mono">{detectedChain.chainId}</code> 
-                  {' '}• Hash <code className="bg-muted px-1 rounded font-mono">{detectedChain.hash.slice(0, 10)}...</code>
+                  Detected: <ChainLabel chainId={chainId} chain={chain} showId />
+                  {' '}• Hash <code className="bg-muted px-1 rounded font-mono">{hash.slice(0, 10)}...</code>
                 </span>
               </div>
             )}
+            {chain && (isPreflighting || preflight) && (
+              <PreflightSummary preflight={preflight} isLoading={isPreflighting} />
+            )}
+            {preflightWarning && warningAcknowledged && (
+              <div className="flex items-start gap-2 p-2 text-xs bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+                <Warning className="h-4 w-4 text-yellow-600 shrink-0" />
+                <span>{preflightWarning} Submit again to index it anyway.</span>
+              </div>
+            )}
           </div>
           
+          {isLoading && retry && (
+            <div className="p-3 text-xs bg-yellow-500/10 border border-yellow-500/20 rounded-md space-y-1">
+              <div className="font-medium text-foreground">
+                Retrying the index request (attempt {retry.attempt + 1} of {retry.maxAttempts}) in {(retry.delayMs / 1000).toFixed(1)}s
+              </div>
+              <div className="text-muted-foreground">{retry.error.message}</div>
+            </div>
+          )}
+
           {error && (
             <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md space-y-2">
               <div className="font-medium">Error:</div>
-              <div>{error}</div>
+              <div>{error.message}</div>
+              <div className="text-xs text-muted-foreground">{getErrorGuidance(error)}</div>
+              {error instanceof RelayHttpError && (
+                <div className="text-xs text-muted-foreground font-mono">
+                  HTTP {error.status}
+                  {error.code && <> • {error.code}</>}
+                  {error.endpoint && <> • {error.endpoint}</>}
+                </div>
+              )}
+              {error instanceof RelayContractError && (
+                <ul className="text-xs text-muted-foreground font-mono space-y-0.5">
+                  {error.issues.map((issue, idx) => (
+                    <li key={idx}>{issue.path || '(root)'}: {issue.message}</li>
+                  ))}
+                </ul>
+              )}
               <details className="text-xs">
                 <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
                   Show troubleshooting help
@@ -146,12 +299,16 @@ export function TransactionInput({ onSubmit, isLoading, error }: TransactionInpu
             </div>
           )}
           
-          <Button type="submit" disabled={!detectedChain || isLoading} className="w-full">
+          <Button type="submit" disabled={!hash || chainId === null || isLoading} className="w-full">
             {isLoading ? (
               <>
                 <CircleNotch className="mr-2 h-4 w-4 animate-spin" />
                 Indexing...
               </>
+            ) : preflightWarning && warningAcknowledged ? (
+              'Index Anyway'
+            ) : detection?.source === 'request' ? (
+              'Re-index Origin Transaction'
             ) : (
               'Index Transaction'
             )}
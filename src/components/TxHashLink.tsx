@@ -0,0 +1,43 @@
+import { Button } from '@/components/ui/button';
+import { ArrowSquareOut, Check, Copy } from '@phosphor-icons/react';
+import { Chain } from '@/lib/types';
+import { getExplorerTxUrl } from '@/lib/explorer-urls';
+import { cn } from '@/lib/utils';
+import { truncateHash } from '@/lib/format';
+import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard';
+
+interface TxHashLinkProps {
+  hash: string;
+  chain?: Chain; // Without a chain the hash is shown without an explorer link
+  truncate?: boolean;
+  className?: string;
+}
+
+export function TxHashLink({ hash, chain, truncate = true, className }: TxHashLinkProps) {
+  const { copied, copy } = useCopyToClipboard();
+  const explorerUrl = chain ? getExplorerTxUrl(chain, hash) : null;
+
+  const copyHash = () => copy(hash, 'the hash');
+
+  return (
+    <span className={cn('inline-flex items-center gap-1 font-mono text-xs', className)}>
+      {explorerUrl ? (
+        <a
+          href={explorerUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={`View on ${chain?.explorerName || 'explorer'}`}
+          className="inline-flex items-center gap-1 hover:underline break-all"
+        >
+          {truncate ? truncateHash(hash) : hash}
+          <ArrowSquareOut className="h-3 w-3" />
+        </a>
+      ) : (
+        <span title={hash} className="break-all">{truncate ? truncateHash(hash) : hash}</span>
+      )}
+      <Button type="button" variant="ghost" size="icon" className="h-5 w-5" onClick={copyHash} title="Copy hash">
+        {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+      </Button>
+    </span>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Wallet, CircleNotch, ArrowClockwise, CheckCircle, Warning } from '@phosphor-icons/react';
+import { TransactionRequest } from '@/lib/types';
+import { getErrorGuidance } from '@/lib/errors';
+import { getOriginTx, isStuckRequest } from '@/lib/request-status';
+import { cn } from '@/lib/utils';
+import { truncateHash } from '@/lib/format';
+import { useWalletLookup, WalletReindexState } from '@/hooks/use-wallet-lookup';
+import { HistoryRecorder } from '@/hooks/use-transaction-history';
+import { useChains } from '@/hooks/use-chains';
+import { ChainLabel } from '@/components/ChainLabel';
+import { TxHashLink } from '@/components/TxHashLink';
+
+interface WalletLookupProps {
+  onRecord?: HistoryRecorder;
+  initialAddress?: string; // From a #/wallet/<address> link; looked up as soon as it is set
+}
+
+function ReindexButton({ request, state, onReindex }: {
+  request: TransactionRequest;
+  state?: WalletReindexState;
+  onReindex: (request: TransactionRequest) => void;
+}) {
+  if (state?.status === 'indexed') {
+    return <Badge variant="default" className="bg-accent text-accent-foreground"><CheckCircle className="mr-1 h-3 w-3" />Indexed</Badge>;
+  }
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => onReindex(request)}
+      disabled={state?.status === 'indexing' || !getOriginTx(request)}
+      title={getOriginTx(request) ? 'Re-index the origin transaction' : 'No origin transaction recorded'}
+    >
+      {state?.status === 'indexing' ? <CircleNotch className="h-4 w-4 animate-spin" /> : <ArrowClockwise className="h-4 w-4" />}
+      Re-index
+    </Button>
+  );
+}
+
+export function WalletLookup({ onRecord, initialAddress }: WalletLookupProps) {
+  const [input, setInput] = useState(initialAddress ?? '');
+  const { address, requests, hasMore, isLoading, error, reindexState, lookup, loadMore, reindex } = useWalletLookup({ onRecord });
+
+  const lookedUpInitialRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!initialAddress || lookedUpInitialRef.current === initialAddress) return;
+    lookedUpInitialRef.current = initialAddress;
+    setInput(initialAddress);
+    lookup(initialAddress);
+  }, [initialAddress, lookup]);
+
+  const { getChain } = useChains();
+  const stuckCount = requests.filter(request => isStuckRequest(request)).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) {
+      lookup(input);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet weight="bold" />
+          Wallet Lookup
+        </CardTitle>
+        <CardDescription>
+          List every Relay request created by a wallet. Requests that have not reached a final status after 30 minutes are flagged as stuck.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            placeholder="0x1234... or another wallet address"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="font-mono text-sm"
+          />
+          <Button type="submit" disabled={!input.trim() || isLoading}>
+            {isLoading && <CircleNotch className="h-4 w-4 animate-spin" />}
+            Look up
+          </Button>
+        </form>
+
+        {error && (
+          <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md space-y-1">
+            <div>{error.message}</div>
+            <div className="text-xs text-muted-foreground">{getErrorGuidance(error)}</div>
+          </div>
+        )}
+
+        {address && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {requests.length} request{requests.length === 1 ? '' : 's'}{hasMore && ' so far'}
+              {stuckCount > 0 && <span className="text-yellow-600"> • {stuckCount} stuck</span>}
+            </span>
+            {hasMore && (
+              <Button variant="outline" size="sm" onClick={loadMore} disabled={isLoading}>
+                Load more
+              </Button>
+            )}
+          </div>
+        )}
+
+        {requests.length > 0 && (
+          <div className="border rounded-md max-h-[32rem] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Request</TableHead>
+                  <TableHead>Origin</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map(request => {
+                  const originTx = getOriginTx(request);
+                  const stuck = isStuckRequest(request);
+                  const state = reindexState[request.id];
+
+                  return (
+                    <TableRow key={request.id} className={cn(stuck && 'bg-yellow-500/10')}>
+                      <TableCell className="font-mono text-xs" title={request.id}>
+                        {truncateHash(request.id)}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {originTx ? (
+                          <div className="space-y-0.5">
+                            <ChainLabel chainId={originTx.chainId} chain={getChain(originTx.chainId)} />
+                            <TxHashLink hash={originTx.hash} chain={getChain(originTx.chainId)} />
+                          </div>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Badge variant="outline" className="capitalize">{request.status}</Badge>
+                          {stuck && (
+                            <Badge variant="outline" className="text-yellow-600"><Warning className="mr-1 h-3 w-3" />Stuck</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground" title={new Date(request.createdAt).toLocaleString()}>
+                        {formatDistanceToNowStrict(new Date(request.createdAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <ReindexButton request={request} state={state} onReindex={reindex} />
+                        {state?.error && <div className="text-xs text-destructive whitespace-normal">{state.error}</div>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {address && !isLoading && !error && requests.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">No Relay requests found for this wallet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
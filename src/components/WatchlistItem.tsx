@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { MonitoringStatus } from '@/components/MonitoringStatus';
+import { useTransactionMonitoring } from '@/hooks/use-transaction-monitoring';
+import { MonitoringState } from '@/lib/types';
+
+interface WatchlistItemProps {
+  entry: MonitoringState;
+  onUpdate: (id: string, updater: (prev: MonitoringState) => MonitoringState) => void;
+  onRemove: (id: string) => void;
+}
+
+export function WatchlistItem({ entry, onUpdate, onRemove }: WatchlistItemProps) {
+  const { id } = entry;
+  const updateMonitoringState = useCallback(
+    (updater: (prev: MonitoringState) => MonitoringState) => onUpdate(id, updater),
+    [id, onUpdate],
+  );
+
+  const {
+    isLoading,
+    error,
+    manualRefresh,
+    selectRequest,
+    pollCount,
+    lastRetry,
+    payloads,
+  } = useTransactionMonitoring(entry, updateMonitoringState);
+
+  return (
+    <MonitoringStatus
+      monitoringState={entry}
+      onManualRefresh={manualRefresh}
+      onStopMonitoring={() => onRemove(id)}
+      isLoading={isLoading}
+      error={error}
+      pollCount={pollCount}
+      lastRetry={lastRetry}
+      onSelectRequest={selectRequest}
+      payloads={payloads}
+    />
+  );
+}
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// One cancellable operation at a time: beginning a new one aborts the previous one, and
+// unmounting aborts whatever is still in flight
+export function useAbortableOperation() {
+  const operationRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => operationRef.current?.abort(), []);
+
+  const beginOperation = useCallback((): AbortSignal => {
+    operationRef.current?.abort();
+    const controller = new AbortController();
+    operationRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancelOperation = useCallback(() => {
+    operationRef.current?.abort();
+    operationRef.current = null;
+  }, []);
+
+  return { beginOperation, cancelOperation };
+}
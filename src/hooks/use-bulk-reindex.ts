@@ -0,0 +1,154 @@
+import { useState, useCallback } from 'react';
+import { relayApi } from '@/lib/relay-api';
+import { BulkInputRow, parseBulkInput, runWithConcurrency } from '@/lib/bulk-reindex';
+import { isAbortError, toRelayApiError } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { checkTransactionStatus } from '@/lib/transaction-status';
+import { getAggregateStatus } from '@/lib/request-status';
+import { HistoryRecorder } from '@/hooks/use-transaction-history';
+import { useAbortableOperation } from '@/hooks/use-abortable-operation';
+
+const log = createLogger('bulk-reindex');
+
+const BULK_CONCURRENCY = 3;
+
+export type BulkRowStatus = 'invalid' | 'ready' | 'queued' | 'indexing' | 'indexed' | 'failed';
+
+export interface BulkRow extends BulkInputRow {
+  id: number;
+  status: BulkRowStatus;
+  txHash?: string;
+  detectedChainId?: number;
+  requestId?: string;
+  error?: string;
+}
+
+export interface BulkReindexOptions {
+  onRecord?: HistoryRecorder;
+}
+
+export function useBulkReindex({ onRecord }: BulkReindexOptions = {}) {
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { beginOperation, cancelOperation } = useAbortableOperation();
+
+  const updateRow = useCallback((id: number, patch: Partial<BulkRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...patch } : row)));
+  }, []);
+
+  // Parses the input and resolves hash + chain for every row for the preview table
+  const validate = useCallback(async (text: string) => {
+    const signal = beginOperation();
+    const parsed = parseBulkInput(text);
+    setIsValidating(true);
+
+    try {
+      const seen = new Set<string>();
+      const validated: BulkRow[] = [];
+
+      for (const [index, row] of parsed.entries()) {
+        const detection = await relayApi.detectChains(row.input, { signal }).catch(err => {
+          if (isAbortError(err)) throw err;
+          return null;
+        });
+        if (signal.aborted) return;
+        const txHash = detection?.hash ?? relayApi.extractTxHashFromUrl(row.input) ?? undefined;
+        const candidates = detection?.candidates ?? [];
+        const chainId = row.chainId ?? (candidates.length === 1 ? candidates[0].id : undefined);
+
+        let error: string | undefined;
+        if (!txHash) {
+          error = 'No transaction hash found';
+        } else if (!chainId) {
+          error = detection?.wrongEnvironment
+            ? `Explorer link is for ${detection.wrongEnvironment}; switch environments`
+            : candidates.length > 1
+            ? `Matches ${candidates.length} chains; add a chainId column`
+            : 'Could not determine chain; add a chainId column';
+        } else if (seen.has(`${chainId}:${txHash}`)) {
+          error = 'Duplicate of an earlier row';
+        }
+        if (txHash && chainId) seen.add(`${chainId}:${txHash}`);
+
+        validated.push({
+          ...row,
+          id: index,
+          txHash,
+          detectedChainId: chainId,
+          status: error ? 'invalid' : 'ready',
+          error,
+        });
+      }
+
+      setRows(validated);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      log.error('Bulk validation failed', err);
+    } finally {
+      if (!signal.aborted) {
+        setIsValidating(false);
+      }
+    }
+  }, [beginOperation]);
+
+  const submit = useCallback(async () => {
+    const signal = beginOperation();
+    const pending = rows.filter(row => row.status === 'ready' || row.status === 'failed');
+    if (pending.length === 0) return;
+
+    setIsSubmitting(true);
+    setRows(prev => prev.map(row => (pending.some(p => p.id === row.id) ? { ...row, status: 'queued', error: undefined } : row)));
+    log.info(`Bulk re-indexing ${pending.length} transactions (concurrency ${BULK_CONCURRENCY})`);
+
+    try {
+      await runWithConcurrency(pending, BULK_CONCURRENCY, async row => {
+        if (!row.txHash || !row.detectedChainId) return;
+        updateRow(row.id, { status: 'indexing' });
+        const record = { transactionHash: row.txHash, chainId: row.detectedChainId, apiBaseUrl: relayApi.environment.apiBaseUrl, submittedAt: new Date().toISOString() };
+
+        try {
+          await relayApi.indexTransaction({ hash: row.txHash, chainId: row.detectedChainId }, { signal });
+          const statuses = (await checkTransactionStatus(row.txHash, { signal }))?.statuses ?? [];
+          if (signal.aborted) return;
+          const requestId = statuses[0]?.requestId;
+          updateRow(row.id, { status: 'indexed', requestId });
+          onRecord?.([{ ...record, requestId, status: getAggregateStatus(statuses) }]);
+        } catch (err) {
+          if (signal.aborted || isAbortError(err)) return;
+          const message = toRelayApiError(err).message;
+          updateRow(row.id, { status: 'failed', error: message });
+          onRecord?.([{ ...record, error: message }]);
+        }
+      }, signal);
+    } finally {
+      if (!signal.aborted) {
+        setIsSubmitting(false);
+      }
+    }
+  }, [rows, onRecord, beginOperation, updateRow]);
+
+  const cancel = useCallback(() => {
+    cancelOperation();
+    setIsValidating(false);
+    setIsSubmitting(false);
+    setRows(prev => prev.map(row => (row.status === 'queued' || row.status === 'indexing' ? { ...row, status: 'ready' } : row)));
+  }, []);
+
+  const reset = useCallback(() => {
+    cancelOperation();
+    setRows([]);
+    setIsValidating(false);
+    setIsSubmitting(false);
+  }, []);
+
+  return {
+    rows,
+    isValidating,
+    isSubmitting,
+    validate,
+    submit,
+    cancel,
+    reset,
+  };
+}
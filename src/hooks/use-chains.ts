@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { relayApi } from '@/lib/relay-api';
+import { createLogger } from '@/lib/logger';
+import { Chain } from '@/lib/types';
+
+const log = createLogger('use-chains');
+
+// Chains of the current environment from the shared registry; renders from cache immediately and
+// re-renders when the registry refreshes
+export function useChains() {
+  const registry = relayApi.chains;
+  const subscribe = useCallback((listener: () => void) => registry.subscribe(listener), [registry]);
+  const chains = useSyncExternalStore(subscribe, () => registry.peek());
+
+  useEffect(() => {
+    registry.getChains().catch(error => log.warn('Failed to load chains', error));
+  }, [registry]);
+
+  const chainsById = useMemo(() => new Map((chains ?? []).map(chain => [chain.id, chain])), [chains]);
+  const getChain = useCallback((id: number | undefined): Chain | undefined => (
+    id === undefined ? undefined : chainsById.get(id)
+  ), [chainsById]);
+
+  return { chains: chains ?? [], getChain };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('clipboard');
+
+const COPIED_RESET_MS = 2000;
+
+// Copies text and flags success for a couple of seconds. A blocked clipboard (denied permission,
+// insecure context) shows an error toast instead of failing silently.
+export function useCopyToClipboard() {
+  const [copied, setCopied] = useState(false);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => () => clearTimeout(timeoutRef.current), []);
+
+  const copy = useCallback(async (text: string, label: string): Promise<boolean> => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err) {
+      log.warn(`Could not copy ${label} to the clipboard`, err);
+      toast.error(`Could not copy ${label}`, { description: 'The browser blocked clipboard access. Copy it manually instead.' });
+      return false;
+    }
+
+    setCopied(true);
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return true;
+  }, []);
+
+  return { copied, copy };
+}
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import { apiTrace } from '@/lib/api-trace';
+import { logBuffer } from '@/lib/logger';
+
+export function useDebugLog() {
+  const apiCalls = useSyncExternalStore(
+    listener => apiTrace.subscribe(listener),
+    () => apiTrace.snapshot(),
+  );
+  const logEntries = useSyncExternalStore(
+    listener => logBuffer.subscribe(listener),
+    () => logBuffer.snapshot(),
+  );
+
+  const clear = () => {
+    apiTrace.clear();
+    logBuffer.clear();
+  };
+
+  return { apiCalls, logEntries, clear };
+}
@@ -0,0 +1,27 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { AppRoute, formatRoute, parseRoute } from '@/lib/routes';
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener('hashchange', listener);
+  return () => window.removeEventListener('hashchange', listener);
+};
+
+export function useHashRoute() {
+  const locationHash = useSyncExternalStore(subscribe, () => window.location.hash);
+  const route = useMemo(() => parseRoute(locationHash), [locationHash]);
+
+  // `replace` rewrites the current history entry, e.g. to drop a one-shot flag after handling it
+  const navigate = useCallback((next: AppRoute, { replace = false }: { replace?: boolean } = {}) => {
+    const hash = formatRoute(next);
+    if (hash === window.location.hash) return;
+    if (replace) {
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash}`);
+      // replaceState does not fire hashchange
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    } else {
+      window.location.hash = hash;
+    }
+  }, []);
+
+  return { route, locationHash, navigate };
+}
@@ -0,0 +1,27 @@
+import { useLayoutEffect, useMemo } from 'react';
+import { useKV } from '@github/spark/hooks';
+import { relayApi } from '@/lib/relay-api';
+import { RelayEnvironmentId, resolveEnvironment } from '@/lib/environments';
+
+export function useRelayEnvironment() {
+  const [environmentId, setEnvironmentId] = useKV<RelayEnvironmentId>('relay-environment', 'mainnet');
+  const [customApiUrl, setCustomApiUrl] = useKV<string>('relay-custom-api-url', '');
+
+  const environment = useMemo(
+    () => resolveEnvironment(environmentId ?? 'mainnet', customApiUrl),
+    [environmentId, customApiUrl],
+  );
+
+  // Layout effect so the client is switched before any child's passive effects fetch with it
+  useLayoutEffect(() => {
+    relayApi.setEnvironment(environment);
+  }, [environment]);
+
+  return {
+    environment,
+    environmentId: environmentId ?? 'mainnet',
+    customApiUrl: customApiUrl ?? '',
+    setEnvironmentId,
+    setCustomApiUrl,
+  };
+}
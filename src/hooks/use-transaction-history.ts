@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useKV } from '@github/spark/hooks';
+import { HistoryEntry } from '@/lib/types';
+import { HistoryUpdate, isHistoryChanged, upsertHistory } from '@/lib/history';
+
+export type HistoryRecorder = (updates: HistoryUpdate[]) => void;
+
+// Every transaction submitted from this browser, kept after it leaves the watchlist
+export function useTransactionHistory() {
+  const [history, setHistory] = useKV<HistoryEntry[]>('transaction-history', []);
+
+  // Latest value for change detection; the watchlist reports on every poll and most reports change nothing
+  const historyRef = useRef<HistoryEntry[]>([]);
+  useEffect(() => {
+    historyRef.current = history ?? [];
+  }, [history]);
+
+  const record = useCallback<HistoryRecorder>((updates) => {
+    if (!updates.some(update => isHistoryChanged(historyRef.current, update))) return;
+    setHistory(prev => {
+      const next = updates.reduce((entries, update) => upsertHistory(entries, update), prev ?? []);
+      historyRef.current = next;
+      return next;
+    });
+  }, [setHistory]);
+
+  const removeEntry = useCallback((id: string) => {
+    setHistory(prev => (prev ?? []).filter(entry => entry.id !== id));
+  }, [setHistory]);
+
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+  }, [setHistory]);
+
+  return {
+    history: history ?? [],
+    record,
+    removeEntry,
+    clearHistory,
+  };
+}
@@ -1,220 +1,184 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useKV } from '@github/spark/hooks';
-import { relayApi } from '@/lib/relay-api';
-import { MonitoringState, RequestStatusResponse } from '@/lib/types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MonitoringState, TransactionStatusCheck } from '@/lib/types';
+import { RelayApiError, RelayHttpError, isAbortError, toRelayApiError } from '@/lib/errors';
+import { RetryAttempt } from '@/lib/retry';
+import { createLogger } from '@/lib/logger';
+import { checkTransactionStatus } from '@/lib/transaction-status';
+import { PayloadSnapshot, nextPayloadSnapshot } from '@/lib/json-diff';
+import { useAbortableOperation } from '@/hooks/use-abortable-operation';
+import {
+  applyStatusCheck,
+  appendTimelineEvent,
+  getRequestIdsToPoll,
+  isPastDeadline,
+  selectMatchingRequest,
+} from '@/lib/request-status';
+
+const log = createLogger('monitoring');
 
 const POLLING_INTERVAL = 2 * 1000; // 2 seconds for very fast updates
 const MAX_FAST_POLLS = 30; // Poll every 2s for first minute (30 * 2s = 60s)
 const SLOW_POLLING_INTERVAL = 10 * 1000; // Then every 10 seconds (more responsive)
 
-export function useTransactionMonitoring() {
-  const [monitoringState, setMonitoringState] = useKV<MonitoringState | null>('monitoring-state', null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [pollCount, setPollCount] = useState(0);
+export type MonitoringStateUpdater = (updater: (prev: MonitoringState) => MonitoringState) => void;
 
-  const checkTransactionStatus = useCallback(async (txHash: string): Promise<RequestStatusResponse | null> => {
-    try {
-      console.log('🔍 Polling for transaction status, hash:', txHash);
-      
-      // Step 1: Check /requests endpoint for request ID
-      console.log('📡 Calling requests endpoint...');
-      const requests = await relayApi.getRequestsByTxHash(txHash);
-      console.log('📋 Received requests:', requests);
-      
-      if (!requests || requests.length === 0) {
-        console.log('⏳ No requests found yet - transaction still being processed');
-        return null;
-      }
+// Raw payloads keyed by "status:<requestId>" and "request:<requestId>"; kept in memory only
+export type PayloadSnapshots = Record<string, PayloadSnapshot>;
+
+export function getPayloadKey(endpoint: 'status' | 'request', requestId: string): string {
+  return `${endpoint}:${requestId}`;
+}
 
-      // Get the latest request (most recent)
-      const latestRequest = requests[0];
-      console.log('📄 Latest request found:', latestRequest);
-      
-      if (!latestRequest?.id) {
-        console.warn('⚠️ Latest request missing id:', latestRequest);
-        return null;
+// Polling lifecycle for a single watchlist entry; the entry itself lives in useTransactionWatchlist
+export function useTransactionMonitoring(monitoringState: MonitoringState, updateMonitoringState: MonitoringStateUpdater) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<RelayApiError | null>(null);
+  const [pollCount, setPollCount] = useState(0);
+  const [lastRetry, setLastRetry] = useState<RetryAttempt | null>(null);
+  const [payloads, setPayloads] = useState<PayloadSnapshots>({});
+
+  const recordPayloads = useCallback((check: TransactionStatusCheck) => {
+    const at = new Date();
+    setPayloads(prev => {
+      const next = { ...prev };
+      for (const endpoint of ['status', 'request'] as const) {
+        for (const [requestId, payload] of Object.entries(check.rawPayloads[endpoint])) {
+          const key = getPayloadKey(endpoint, requestId);
+          next[key] = nextPayloadSnapshot(prev[key], payload, at);
+        }
       }
-      
-      console.log('✅ Found request ID:', latestRequest.id);
-      
-      // Step 2: Get detailed status using request ID
-      console.log('📡 Calling status endpoint for request ID:', latestRequest.id);
-      const statusDetails = await relayApi.getRequestStatus(latestRequest.id);
-      console.log('📊 Received status details:', statusDetails);
-      
-      return statusDetails;
-    } catch (err) {
-      console.error('❌ Error checking transaction status:', err);
-      throw err;
-    }
+      return next;
+    });
   }, []);
 
-  const startMonitoring = useCallback(async (transactionUrl: string) => {
-    setIsLoading(true);
-    setError(null);
-    setPollCount(0);
+  // Cancels an in-flight manual refresh when a newer one starts or the entry is removed
+  const { beginOperation } = useAbortableOperation();
 
-    try {
-      // Step 1: Get chain ID and transaction hash from URL
-      const txHash = relayApi.extractTxHashFromUrl(transactionUrl);
-      if (!txHash) {
-        throw new Error('Invalid transaction URL. Please provide a valid blockchain explorer URL (e.g., Etherscan, Polygonscan, Arbiscan, HyperEVM, etc.)');
-      }
-
-      const chainId = await relayApi.getChainIdFromUrl(transactionUrl);
-      if (!chainId) {
-        throw new Error('Could not determine chain ID from URL. Please use a supported blockchain explorer (Etherscan, Arbiscan, Polygonscan, etc.) or check that the URL is correct.');
-      }
-
-      console.log(`� RE-INDEXER FLOW: Processing transaction ${txHash} on chain ${chainId}`);
-
-      // Set initial monitoring state
-      setMonitoringState({
-        isMonitoring: true,
-        transactionHash: txHash,
-        lastChecked: new Date(),
-      });
-
-      // Step 2: ALWAYS INDEX FIRST (This is a re-indexer tool!)
-      console.log('📦 Step 1: Force indexing transaction (ensuring fresh data)...');
-      const indexResult = await relayApi.indexTransaction({ hash: txHash, chainId });
-      console.log('✅ Index result:', indexResult);
-
-      // Step 3: Start polling for request ID after indexing
-      console.log('🔄 Step 2: Starting polling for request ID after indexing...');
-      
-      // Check once immediately after indexing
-      const freshDetails = await checkTransactionStatus(txHash);
-      if (freshDetails) {
-        console.log('🎉 Found transaction details immediately after indexing:', freshDetails);
-        setMonitoringState(prev => prev ? {
-          ...prev,
-          requestId: freshDetails.requestId,
-          transactionDetails: freshDetails,
-          isMonitoring: false,
-        } : null);
-      } else {
-        console.log('⏳ No immediate results, starting polling (every 2s for first minute)...');
-      }
-    } catch (err) {
-      console.error('Error starting monitoring:', err);
-      let errorMessage = 'An error occurred while processing the transaction';
-      
-      if (err instanceof Error) {
-        if (err.message.includes('404')) {
-          errorMessage = 'Transaction not found. Please ensure the transaction URL is correct and the transaction exists on the blockchain.';
-        } else if (err.message.includes('400')) {
-          errorMessage = 'Invalid request. Please check that the transaction URL is from a supported blockchain explorer.';
-        } else if (err.message.includes('500')) {
-          errorMessage = 'Relay service is temporarily unavailable. Please try again in a few minutes.';
-        } else if (err.message.includes('Network')) {
-          errorMessage = 'Network error. Please check your internet connection and try again.';
-        } else {
-          errorMessage = err.message;
-        }
-      }
-      
-      setError(errorMessage);
-      setMonitoringState(null);
-      setPollCount(0);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [setMonitoringState, checkTransactionStatus]);
+  // Legacy entries without apiBaseUrl use the current environment
+  const { transactionHash, isMonitoring, deadlineAt, apiBaseUrl } = monitoringState;
+  // Joined so the polling effect only restarts when the set of requests changes
+  const pollIds = getRequestIdsToPoll(monitoringState)?.join(',');
+  const refreshIds = getRequestIdsToPoll(monitoringState, true)?.join(',');
 
   const manualRefresh = useCallback(async () => {
-    if (!monitoringState?.transactionHash) return;
+    if (!transactionHash) return;
 
+    const signal = beginOperation();
     setIsLoading(true);
     setError(null);
 
     try {
-      console.log('Manual refresh: checking transaction status...');
-      const details = await checkTransactionStatus(monitoringState.transactionHash);
-      
-      setMonitoringState(prev => prev ? {
-        ...prev,
-        lastChecked: new Date(),
-        ...(details ? {
-          requestId: details.requestId,
-          transactionDetails: details,
-          isMonitoring: false,
-        } : {}),
-      } : null);
-      
-      if (details) {
-        console.log('Manual refresh: found transaction details');
-      } else {
-        console.log('Manual refresh: no transaction details found yet');
-      }
+      const check = await checkTransactionStatus(transactionHash, { signal, onRetry: setLastRetry, baseUrl: apiBaseUrl }, refreshIds?.split(','));
+      if (signal.aborted) return;
+      setLastRetry(null);
+      if (check) recordPayloads(check);
+
+      updateMonitoringState(prev => (check
+        ? applyStatusCheck(prev, check)
+        : { ...prev, lastChecked: new Date() }));
+
+      log.info(check ? 'Manual refresh: found transaction details' : 'Manual refresh: no transaction details found yet');
     } catch (err) {
-      console.error('Manual refresh error:', err);
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred during refresh';
-      setError(errorMessage);
+      if (signal.aborted || isAbortError(err)) return;
+      log.error('Manual refresh error', err);
+      setLastRetry(null);
+      setError(toRelayApiError(err));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [monitoringState?.transactionHash, setMonitoringState, checkTransactionStatus]);
+  }, [transactionHash, refreshIds, apiBaseUrl, updateMonitoringState, beginOperation, recordPayloads]);
 
-  const stopMonitoring = useCallback(() => {
-    setMonitoringState(null);
-    setError(null);
-    setPollCount(0);
-  }, [setMonitoringState]);
+  // Read by the polling loop without restarting it on every poll
+  const pollCountRef = useRef(pollCount);
+  pollCountRef.current = pollCount;
 
-  // Auto-polling effect with progressive intervals
+  // Auto-polling effect with progressive intervals. The next check is scheduled only once the
+  // current one settles, so slow responses never overlap.
   useEffect(() => {
-    if (!monitoringState?.isMonitoring || !monitoringState.transactionHash) {
+    if (!isMonitoring || !transactionHash) {
       return;
     }
 
-    // Use faster polling initially, then slow down
-    const currentInterval = pollCount < MAX_FAST_POLLS ? POLLING_INTERVAL : SLOW_POLLING_INTERVAL;
-    const intervalName = pollCount < MAX_FAST_POLLS ? 'fast' : 'slow';
-    
-    console.log(`Starting ${intervalName} polling (attempt ${pollCount + 1}) - checking every ${currentInterval}ms`);
+    // Aborted on cleanup so a stopped or replaced transaction never receives late results
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const scheduleNext = (minDelayMs = 0) => {
+      if (controller.signal.aborted) return;
+      // Use faster polling initially, then slow down
+      const polls = pollCountRef.current;
+      const currentInterval = Math.max(polls < MAX_FAST_POLLS ? POLLING_INTERVAL : SLOW_POLLING_INTERVAL, minDelayMs);
+      log.debug(`Next ${polls < MAX_FAST_POLLS ? 'fast' : 'slow'} poll (attempt ${polls + 1}) in ${currentInterval}ms`);
+      timeoutId = setTimeout(poll, currentInterval);
+    };
+
+    const poll = async () => {
+      if (isPastDeadline(deadlineAt)) {
+        log.warn(`Giving up on ${transactionHash}: monitoring deadline passed`);
+        updateMonitoringState(prev => ({
+          ...prev,
+          isMonitoring: false,
+          timedOut: true,
+          timeline: appendTimelineEvent(prev.timeline, { type: 'timed-out' }),
+        }));
+        return;
+      }
 
-    const interval = setInterval(async () => {
+      let minDelayMs = 0;
       try {
-        console.log(`Auto-polling (${intervalName}, attempt ${pollCount + 1}): checking transaction status...`);
-        const details = await checkTransactionStatus(monitoringState.transactionHash);
-        
-        if (details) {
-          console.log('Auto-polling: found transaction details, stopping monitoring');
-          setMonitoringState(prev => prev ? {
-            ...prev,
-            requestId: details.requestId,
-            transactionDetails: details,
-            isMonitoring: false,
-            lastChecked: new Date(),
-          } : null);
-          setPollCount(0);
+        const check = await checkTransactionStatus(transactionHash, { signal: controller.signal, onRetry: setLastRetry, baseUrl: apiBaseUrl }, pollIds?.split(','));
+        if (controller.signal.aborted) return;
+        setLastRetry(null);
+
+        if (check) {
+          log.debug(`Auto-polling: ${check.statuses.map(details => `${details.requestId} is ${details.status}`).join(', ')}`);
+          recordPayloads(check);
+          updateMonitoringState(prev => applyStatusCheck(prev, check));
         } else {
-          console.log(`Auto-polling: no details yet (attempt ${pollCount + 1}), updating last checked time`);
-          setMonitoringState(prev => prev ? {
+          log.debug(`Auto-polling: no details yet (attempt ${pollCountRef.current + 1})`);
+          updateMonitoringState(prev => ({
             ...prev,
             lastChecked: new Date(),
-          } : null);
-          setPollCount(prev => prev + 1);
+          }));
         }
       } catch (err) {
-        console.error('Auto-polling error:', err);
-        // Don't stop monitoring on error, just log it and increment poll count
-        setPollCount(prev => prev + 1);
+        if (controller.signal.aborted || isAbortError(err)) return;
+        log.warn('Auto-polling error', err);
+        // Don't stop monitoring on error, just log it; the retries it reported are over
+        setLastRetry(null);
+        // Honour a Retry-After the request gave up on instead of polling straight into it again
+        if (err instanceof RelayHttpError && err.retryAfterMs !== undefined) {
+          minDelayMs = err.retryAfterMs;
+        }
       }
-    }, currentInterval);
 
-    return () => clearInterval(interval);
-  }, [monitoringState?.isMonitoring, monitoringState?.transactionHash, setMonitoringState, checkTransactionStatus, pollCount]);
+      pollCountRef.current += 1;
+      setPollCount(prev => prev + 1);
+      scheduleNext(minDelayMs);
+    };
+
+    scheduleNext();
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [isMonitoring, transactionHash, pollIds, deadlineAt, apiBaseUrl, updateMonitoringState, recordPayloads]);
+
+  // Shows the details of a different request matching the same hash
+  const selectRequest = useCallback((id: string) => {
+    updateMonitoringState(prev => selectMatchingRequest(prev, id));
+  }, [updateMonitoringState]);
 
   return {
-    monitoringState,
     isLoading,
     error,
-    startMonitoring,
     manualRefresh,
-    stopMonitoring,
+    selectRequest,
     pollCount,
+    lastRetry,
+    payloads,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useKV } from '@github/spark/hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { relayApi } from '@/lib/relay-api';
+import { HistoryEntry, MonitoringState } from '@/lib/types';
+import { RelayApiError, RelayValidationError, isAbortError, toRelayApiError } from '@/lib/errors';
+import { RetryAttempt } from '@/lib/retry';
+import { createLogger } from '@/lib/logger';
+import { checkTransactionStatus } from '@/lib/transaction-status';
+import { applyStatusCheck, appendTimelineEvent } from '@/lib/request-status';
+import { historyUpdateFromState } from '@/lib/history';
+import { HistoryRecorder } from '@/hooks/use-transaction-history';
+import { useAbortableOperation } from '@/hooks/use-abortable-operation';
+
+const log = createLogger('watchlist');
+
+const DEFAULT_MONITORING_DEADLINE_MS = 60 * 60 * 1000; // Stop polling a request after an hour without a terminal status
+
+export interface WatchlistOptions {
+  deadlineMs?: number;
+  onRecord?: HistoryRecorder; // Receives every entry change so it outlives the watchlist
+}
+
+interface ResolvedTransaction {
+  txHash: string;
+  chainId: number;
+}
+
+export function useTransactionWatchlist({ deadlineMs = DEFAULT_MONITORING_DEADLINE_MS, onRecord }: WatchlistOptions = {}) {
+  const [watchlist, setWatchlist] = useKV<MonitoringState[]>('monitoring-watchlist', []);
+  // Single-transaction state from before the watchlist existed; folded in once on load
+  const [legacyState, , deleteLegacyState] = useKV<Omit<MonitoringState, 'id'> | null>('monitoring-state', null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<RelayApiError | null>(null);
+  const [indexRetry, setIndexRetry] = useState<RetryAttempt | null>(null); // Pending retry of the current add's index request
+
+  // Cancels an in-flight add when a newer one starts or the app unmounts
+  const { beginOperation } = useAbortableOperation();
+
+  useEffect(() => {
+    if (!legacyState?.transactionHash) return;
+    setWatchlist(prev => [
+      ...(prev ?? []).filter(entry => entry.transactionHash !== legacyState.transactionHash),
+      { ...legacyState, id: uuidv4() },
+    ]);
+    deleteLegacyState();
+  }, [legacyState, setWatchlist, deleteLegacyState]);
+
+  useEffect(() => {
+    if (!onRecord || !watchlist?.length) return;
+    onRecord(watchlist.map(entry => historyUpdateFromState(entry, relayApi.environment.apiBaseUrl)));
+  }, [watchlist, onRecord]);
+
+  const updateEntry = useCallback((id: string, updater: (prev: MonitoringState) => MonitoringState) => {
+    setWatchlist(prev => (prev ?? []).map(entry => (entry.id === id ? updater(entry) : entry)));
+  }, [setWatchlist]);
+
+  const removeTransaction = useCallback((id: string) => {
+    setWatchlist(prev => (prev ?? []).filter(entry => entry.id !== id));
+  }, [setWatchlist]);
+
+  // Indexes a transaction, then adds it to the watchlist. Re-adding a hash that is
+  // already watched re-indexes it and restarts monitoring on the existing entry.
+  const startTransaction = useCallback(async (
+    resolve: (signal: AbortSignal) => Promise<ResolvedTransaction>,
+    apiBaseUrl = relayApi.environment.apiBaseUrl,
+  ): Promise<boolean> => {
+    const signal = beginOperation();
+
+    setIsLoading(true);
+    setError(null);
+    setIndexRetry(null);
+
+    let resolved: ResolvedTransaction | null = null;
+
+    try {
+      // Step 1: Get chain ID and transaction hash
+      resolved = await resolve(signal);
+      const { txHash, chainId } = resolved;
+
+      log.info(`Re-indexing transaction ${txHash} on chain ${chainId}`);
+
+      // Step 2: ALWAYS INDEX FIRST (This is a re-indexer tool!)
+      const submittedAt = new Date();
+      await relayApi.indexTransaction({ hash: txHash, chainId }, { signal, baseUrl: apiBaseUrl, onRetry: setIndexRetry });
+      if (signal.aborted) return false;
+      setIndexRetry(null);
+
+      // Only an indexed transaction joins the watchlist, so a failed or cancelled add leaves nothing behind
+      const existing = (watchlist ?? []).find(entry => entry.transactionHash === txHash && entry.chainId === chainId);
+      const id = existing?.id ?? uuidv4();
+      const now = new Date();
+      const initialState: MonitoringState = {
+        id,
+        isMonitoring: true,
+        transactionHash: txHash,
+        chainId,
+        apiBaseUrl,
+        addedAt: submittedAt,
+        lastChecked: now,
+        deadlineAt: new Date(now.getTime() + deadlineMs),
+        timeline: appendTimelineEvent(
+          appendTimelineEvent(undefined, { type: 'submitted', txHash }, submittedAt),
+          { type: 'indexed' },
+          now,
+        ),
+      };
+      setWatchlist(prev => existing
+        ? (prev ?? []).map(entry => (entry.id === id ? initialState : entry))
+        : [initialState, ...(prev ?? [])]);
+
+      // Step 3: Check once immediately after indexing; the entry's own hook polls from here
+      const freshCheck = await checkTransactionStatus(txHash, { signal, baseUrl: apiBaseUrl });
+      if (signal.aborted) return false;
+      if (freshCheck) {
+        log.info(`Found ${freshCheck.statuses.length} request(s) immediately after indexing`);
+        updateEntry(id, prev => applyStatusCheck(prev, freshCheck));
+      } else {
+        log.info('No immediate results, starting polling (every 2s for first minute)');
+      }
+      return true;
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return false;
+      log.error('Error starting monitoring', err);
+      const apiError = toRelayApiError(err);
+      setError(apiError);
+      if (resolved) {
+        onRecord?.([{
+          transactionHash: resolved.txHash,
+          chainId: resolved.chainId,
+          apiBaseUrl,
+          error: apiError.message,
+          submittedAt: new Date().toISOString(),
+        }]);
+      }
+      return false;
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setIndexRetry(null);
+      }
+    }
+  }, [watchlist, deadlineMs, onRecord, beginOperation, setWatchlist, updateEntry]);
+
+  // Accepts explorer URLs, bare hashes, relay.link transaction links and request IDs; the latter
+  // two re-index the request's origin transaction. chainId is the user's pick when the input
+  // alone does not identify the chain.
+  const addTransaction = useCallback((transactionUrl: string, chainId?: number) => startTransaction(async (signal) => {
+    const { hash: txHash, candidates, source, requestId, wrongEnvironment } = await relayApi.detectChains(transactionUrl, { signal, resolveRequestIds: true });
+    if (!txHash && source === 'request') {
+      throw new RelayValidationError(`Relay has no origin transaction for request ${requestId} yet, so there is nothing to re-index.`, 'url');
+    }
+    if (!txHash) {
+      throw new RelayValidationError('Invalid transaction URL. Please provide a valid blockchain explorer URL (e.g., Etherscan, Basescan, Solscan, mempool.space, Tronscan, Suiscan, etc.)', 'url');
+    }
+
+    if (wrongEnvironment) {
+      throw new RelayValidationError(`This explorer link is for ${wrongEnvironment}. Switch to the ${wrongEnvironment} environment and try again.`, 'chainId');
+    }
+    if (chainId !== undefined) {
+      return { txHash, chainId };
+    }
+    if (candidates.length > 1) {
+      const names = candidates.slice(0, 5).map(chain => chain.displayName || chain.name).join(', ');
+      throw new RelayValidationError(`This transaction could be on several chains (${names}${candidates.length > 5 ? ', ...' : ''}). Pick the chain and try again.`, 'chainId');
+    }
+    if (candidates.length === 0) {
+      throw new RelayValidationError('Could not determine chain ID from URL. Please use a supported blockchain explorer (Etherscan, Solscan, mempool.space, Tronscan, etc.) or check that the URL is correct.', 'chainId');
+    }
+
+    return { txHash, chainId: candidates[0].id };
+  }), [startTransaction]);
+
+  // Re-indexes a hash whose chain is already known, e.g. from history or a link pinned to an environment
+  const reindexTransaction = useCallback((txHash: string, chainId: number, apiBaseUrl?: string) => (
+    startTransaction(async () => ({ txHash, chainId }), apiBaseUrl)
+  ), [startTransaction]);
+
+  // Puts a transaction on the watchlist and polls it without re-indexing; requests are looked up
+  // by hash so every request matching it is followed
+  const watchTransaction = useCallback((txHash: string, chainId: number | undefined, apiBaseUrl = relayApi.environment.apiBaseUrl) => {
+    const now = new Date();
+    setWatchlist(prev => {
+      const existing = (prev ?? []).find(e => e.transactionHash === txHash && e.chainId === chainId);
+      const watched: MonitoringState = {
+        ...existing,
+        id: existing?.id ?? uuidv4(),
+        isMonitoring: true,
+        transactionHash: txHash,
+        chainId,
+        apiBaseUrl,
+        addedAt: now,
+        deadlineAt: new Date(now.getTime() + deadlineMs),
+        timedOut: false,
+      };
+      return existing
+        ? (prev ?? []).map(e => (e.id === existing.id ? watched : e))
+        : [watched, ...(prev ?? [])];
+    });
+  }, [deadlineMs, setWatchlist]);
+
+  // Puts a history entry back on the watchlist without re-indexing it
+  const resumeTransaction = useCallback((entry: HistoryEntry) => {
+    watchTransaction(entry.transactionHash, entry.chainId, entry.apiBaseUrl);
+  }, [watchTransaction]);
+
+  // Watches the origin transaction of a Relay request without re-indexing it
+  const watchRequest = useCallback(async (requestId: string): Promise<boolean> => {
+    const signal = beginOperation();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { hash, candidates } = await relayApi.detectChains(requestId, { signal, resolveRequestIds: true });
+      if (!hash || candidates.length !== 1) {
+        throw new RelayValidationError(`Could not find the origin transaction of request ${requestId}.`, 'requestId');
+      }
+      watchTransaction(hash, candidates[0].id);
+      return true;
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return false;
+      log.error(`Failed to open request ${requestId}`, err);
+      setError(toRelayApiError(err));
+      return false;
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [beginOperation, watchTransaction]);
+
+  return {
+    watchlist: watchlist ?? [],
+    isLoading,
+    error,
+    indexRetry,
+    addTransaction,
+    reindexTransaction,
+    watchTransaction,
+    watchRequest,
+    resumeTransaction,
+    removeTransaction,
+    updateEntry,
+  };
+}
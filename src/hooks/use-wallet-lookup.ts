@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { relayApi } from '@/lib/relay-api';
+import { TransactionRequest } from '@/lib/types';
+import { RelayApiError, RelayValidationError, isAbortError, toRelayApiError } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { detectWalletVm, isWalletAddress } from '@/lib/wallet';
+import { getOriginTx } from '@/lib/request-status';
+import { HistoryRecorder } from '@/hooks/use-transaction-history';
+import { useAbortableOperation } from '@/hooks/use-abortable-operation';
+
+const log = createLogger('wallet-lookup');
+
+const MAX_PAGES_PER_LOAD = 10; // Keeps one lookup bounded; "Load more" continues from here
+
+export type WalletReindexStatus = 'indexing' | 'indexed' | 'failed';
+
+export interface WalletReindexState {
+  status: WalletReindexStatus;
+  error?: string;
+}
+
+export interface WalletLookupOptions {
+  onRecord?: HistoryRecorder;
+}
+
+export function useWalletLookup({ onRecord }: WalletLookupOptions = {}) {
+  const [address, setAddress] = useState<string | null>(null);
+  const [requests, setRequests] = useState<TransactionRequest[]>([]);
+  const [continuation, setContinuation] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<RelayApiError | null>(null);
+  const [reindexState, setReindexState] = useState<Record<string, WalletReindexState>>({});
+
+  // Cancels an in-flight page walk when a new lookup starts or the view unmounts
+  const { beginOperation } = useAbortableOperation();
+  // Re-index calls outlive page walks and are only cancelled on unmount
+  const lifetimeRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const lifetime = new AbortController();
+    lifetimeRef.current = lifetime;
+    return () => lifetime.abort();
+  }, []);
+
+  const loadPages = useCallback(async (user: string, from: string | undefined, signal: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      let next = from;
+      const query = { user, continuation: from, sortBy: 'createdAt', sortDirection: 'desc' } as const;
+      for await (const page of relayApi.iterateRequests(query, { signal, maxPages: MAX_PAGES_PER_LOAD })) {
+        if (signal.aborted) return;
+        setRequests(prev => [...prev, ...page.requests.filter(r => !prev.some(existing => existing.id === r.id))]);
+        next = page.continuation;
+      }
+      setContinuation(next);
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      log.error('Wallet lookup failed', err);
+      setError(toRelayApiError(err));
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  const lookup = useCallback(async (input: string) => {
+    const user = input.trim();
+    const signal = beginOperation();
+    setRequests([]);
+    setContinuation(undefined);
+    setReindexState({});
+
+    if (!isWalletAddress(user)) {
+      setAddress(null);
+      setIsLoading(false);
+      setError(new RelayValidationError('Enter a wallet address (EVM 0x…, Solana, Bitcoin, Tron or Sui)', 'user'));
+      return;
+    }
+
+    setAddress(user);
+    log.info(`Looking up Relay requests for a ${detectWalletVm(user)} wallet`);
+    await loadPages(user, undefined, signal);
+  }, [beginOperation, loadPages]);
+
+  const loadMore = useCallback(async () => {
+    if (!address || !continuation) return;
+    await loadPages(address, continuation, beginOperation());
+  }, [address, continuation, beginOperation, loadPages]);
+
+  const reindex = useCallback(async (request: TransactionRequest) => {
+    const originTx = getOriginTx(request);
+    const setRowState = (state: WalletReindexState) => setReindexState(prev => ({ ...prev, [request.id]: state }));
+    if (!originTx) {
+      setRowState({ status: 'failed', error: 'Request has no origin transaction to index' });
+      return;
+    }
+
+    setRowState({ status: 'indexing' });
+    const record = {
+      transactionHash: originTx.hash,
+      chainId: originTx.chainId,
+      apiBaseUrl: relayApi.environment.apiBaseUrl,
+      requestId: request.id,
+      submittedAt: new Date().toISOString(),
+    };
+
+    try {
+      await relayApi.indexTransaction({ hash: originTx.hash, chainId: originTx.chainId }, { signal: lifetimeRef.current?.signal });
+      setRowState({ status: 'indexed' });
+      onRecord?.([{ ...record, status: request.status }]);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const message = toRelayApiError(err).message;
+      log.warn(`Re-indexing ${originTx.hash} failed`, err);
+      setRowState({ status: 'failed', error: message });
+      onRecord?.([{ ...record, error: message }]);
+    }
+  }, [onRecord]);
+
+  return {
+    address,
+    requests,
+    hasMore: !!continuation,
+    isLoading,
+    error,
+    reindexState,
+    lookup,
+    loadMore,
+    reindex,
+  };
+}
@@ -0,0 +1,66 @@
+import { RingBuffer, redact } from './logger';
+
+const API_TRACE_SIZE = 50;
+
+export interface ApiCallRecord {
+  id: number;
+  method: string;
+  url: string;
+  endpoint: string;
+  startedAt: number;
+  durationMs?: number;
+  status?: number;
+  requestBody?: unknown;
+  responseBody?: unknown;
+  error?: string;
+}
+
+let nextCallId = 1;
+
+export const apiTrace = new RingBuffer<ApiCallRecord>(API_TRACE_SIZE);
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+export function beginApiCall(method: string, url: string, endpoint: string, requestBody?: unknown): number {
+  const id = nextCallId++;
+  apiTrace.push({
+    id,
+    method,
+    url: redact(url) as string,
+    endpoint,
+    startedAt: Date.now(),
+    requestBody: redact(parseBody(requestBody)),
+  });
+  return id;
+}
+
+export function completeApiCall(id: number, result: { status?: number; responseBody?: unknown; error?: string }): void {
+  apiTrace.update(call => call.id === id, call => ({
+    ...call,
+    durationMs: Date.now() - call.startedAt,
+    status: result.status ?? call.status,
+    responseBody: result.responseBody === undefined ? call.responseBody : redact(result.responseBody),
+    error: result.error === undefined ? undefined : (redact(result.error) as string),
+  }));
+}
+
+// Plain-text trace suitable for pasting into a support ticket
+export function formatApiTrace(calls: ApiCallRecord[]): string {
+  return calls
+    .map(call => {
+      const header = `${new Date(call.startedAt).toISOString()} ${call.method} ${call.url} -> ${call.status ?? 'no response'}${call.durationMs !== undefined ? ` (${call.durationMs}ms)` : ''}`;
+      const lines = [header];
+      if (call.requestBody !== undefined) lines.push(`  request: ${JSON.stringify(call.requestBody)}`);
+      if (call.responseBody !== undefined) lines.push(`  response: ${JSON.stringify(call.responseBody)}`);
+      if (call.error) lines.push(`  error: ${call.error}`);
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
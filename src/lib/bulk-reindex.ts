@@ -0,0 +1,93 @@
+export interface BulkInputRow {
+  line: number; // 1-based line in the pasted text or CSV file
+  input: string; // Explorer URL or bare hash
+  chainId?: number; // From an optional chainId column; overrides URL detection
+}
+
+const INPUT_COLUMNS = ['url', 'hash', 'txhash', 'tx_hash', 'transaction', 'link', 'input'];
+const CHAIN_COLUMNS = ['chainid', 'chain_id', 'chain'];
+
+// Splits one CSV line, honouring double-quoted fields with "" escapes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === '\t' || char === ';') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+// Accepts newline-separated URLs/hashes or CSV, with an optional header row and chainId column
+export function parseBulkInput(text: string): BulkInputRow[] {
+  const lines = text.split(/\r?\n/);
+  const rows: BulkInputRow[] = [];
+
+  let inputIndex = 0;
+  let chainIndex = 1;
+  let startLine = 0;
+
+  const firstContentLine = lines.findIndex(line => line.trim() !== '');
+  if (firstContentLine !== -1) {
+    const header = splitCsvLine(lines[firstContentLine]).map(field => field.toLowerCase());
+    const headerInput = header.findIndex(field => INPUT_COLUMNS.includes(field));
+    const headerChain = header.findIndex(field => CHAIN_COLUMNS.includes(field));
+    if (headerInput !== -1 || headerChain !== -1) {
+      inputIndex = headerInput !== -1 ? headerInput : 0;
+      chainIndex = headerChain;
+      startLine = firstContentLine + 1;
+    }
+  }
+
+  for (let i = startLine; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const fields = splitCsvLine(trimmed);
+    const input = fields[inputIndex] ?? '';
+    const rawChain = chainIndex >= 0 ? fields[chainIndex] : undefined;
+    const chainId = rawChain && /^\d+$/.test(rawChain) ? Number(rawChain) : undefined;
+
+    rows.push({ line: i + 1, input, chainId });
+  }
+
+  return rows;
+}
+
+// Runs `worker` over `items` with at most `limit` in flight; stops picking up new items once aborted
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+}
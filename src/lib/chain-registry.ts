@@ -0,0 +1,154 @@
+import { Chain } from './types';
+import { RelayAbortError } from './errors';
+import { createLogger } from './logger';
+
+const log = createLogger('chain-registry');
+
+const FRESH_TTL_MS = 10 * 60 * 1000; // Serve from cache without revalidating
+const MAX_STALE_MS = 24 * 60 * 60 * 1000; // Still usable when the API is unreachable
+
+interface CachedChains {
+  fetchedAt: number;
+  chains: Chain[];
+}
+
+export interface ChainLookupOptions {
+  signal?: AbortSignal;
+}
+
+export type ChainFetcher = () => Promise<Chain[]>;
+type ChainListener = (chains: Chain[]) => void;
+
+export function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^www\./, '');
+}
+
+export function getExplorerHost(chain: Chain): string | null {
+  if (!chain.explorerUrl) return null;
+  try {
+    return normalizeHost(new URL(chain.explorerUrl).hostname);
+  } catch {
+    return null;
+  }
+}
+
+// Resolves with the promise, or rejects as soon as the caller's signal aborts.
+// The shared underlying request keeps running for other callers.
+function withSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new RelayAbortError({ endpoint: '/chains' }));
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new RelayAbortError({ endpoint: '/chains' }));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export class ChainRegistry {
+  private cache: CachedChains | null;
+  private inFlight: Promise<Chain[]> | null = null;
+  private readonly listeners = new Set<ChainListener>();
+
+  constructor(private readonly fetchChains: ChainFetcher, private readonly storageKey: string) {
+    this.cache = this.readPersisted();
+  }
+
+  // Synchronous view of whatever is cached, for instant UI rendering
+  peek(): Chain[] | null {
+    return this.cache?.chains ?? null;
+  }
+
+  subscribe(listener: ChainListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getChains(options: ChainLookupOptions = {}): Promise<Chain[]> {
+    const age = this.cache ? Date.now() - this.cache.fetchedAt : Infinity;
+
+    if (this.cache && age < FRESH_TTL_MS) {
+      return this.cache.chains;
+    }
+
+    if (this.cache && age < MAX_STALE_MS) {
+      // Stale-while-revalidate: answer now, refresh in the background
+      this.refresh().catch(error => log.warn('Background chain refresh failed', error));
+      return this.cache.chains;
+    }
+
+    return withSignal(this.refresh(), options.signal);
+  }
+
+  async getChainById(id: number, options: ChainLookupOptions = {}): Promise<Chain | undefined> {
+    const chains = await this.getChains(options);
+    return chains.find(chain => chain.id === id);
+  }
+
+  async getChainByExplorerHost(host: string, options: ChainLookupOptions = {}): Promise<Chain | undefined> {
+    const chains = await this.getChains(options);
+    const target = normalizeHost(host);
+    return chains.find(chain => getExplorerHost(chain) === target);
+  }
+
+  async listIndexableChains(options: ChainLookupOptions = {}): Promise<Chain[]> {
+    const chains = await this.getChains(options);
+    return chains.filter(chain => !chain.disabled && chain.depositEnabled);
+  }
+
+  invalidate(): void {
+    this.cache = null;
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch {
+      // Storage unavailable (private mode, quota); the in-memory cache is enough
+    }
+  }
+
+  // Deduplicates concurrent callers into a single /chains request
+  private refresh(): Promise<Chain[]> {
+    if (!this.inFlight) {
+      this.inFlight = this.fetchChains()
+        .then(chains => {
+          this.cache = { fetchedAt: Date.now(), chains };
+          this.persist();
+          this.listeners.forEach(listener => listener(chains));
+          return chains;
+        })
+        .catch(error => {
+          if (this.cache && Date.now() - this.cache.fetchedAt < MAX_STALE_MS) {
+            log.warn('Chain refresh failed, serving cached chains', error);
+            return this.cache.chains;
+          }
+          throw error;
+        })
+        .finally(() => {
+          this.inFlight = null;
+        });
+    }
+    return this.inFlight;
+  }
+
+  private readPersisted(): CachedChains | null {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return null;
+      const parsed = JSON.parse(raw) as CachedChains;
+      if (typeof parsed?.fetchedAt !== 'number' || !Array.isArray(parsed.chains)) return null;
+      return parsed;
+    } catch {
+      return null;
+    }
+  }
+
+  private persist(): void {
+    if (!this.cache) return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.cache));
+    } catch {
+      // Storage unavailable (private mode, quota); the in-memory cache is enough
+    }
+  }
+}
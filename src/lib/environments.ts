@@ -0,0 +1,111 @@
+export type RelayEnvironmentId = 'mainnet' | 'testnets' | 'custom';
+
+export interface RelayEnvironment {
+  id: RelayEnvironmentId;
+  label: string;
+  apiBaseUrl: string;
+  appUrl: string; // relay.link frontend used for transaction links
+  // Explorer host -> chain ID, used only when no /chains explorer template matches. Hosts are
+  // matched exactly, so every testnet subdomain is listed on its own. Explorers that pick the
+  // network with a query parameter are keyed "host?cluster=<name>" (see matchStaticExplorerDomain).
+  staticExplorerChainIds: Record<string, number>;
+}
+
+const MAINNET_EXPLORER_CHAIN_IDS: Record<string, number> = {
+  'etherscan.io': 1,
+  'polygonscan.com': 137,
+  'arbiscan.io': 42161,
+  'nova.arbiscan.io': 42170,
+  'optimistic.etherscan.io': 10,
+  'basescan.org': 8453,
+  'bscscan.com': 56,
+  'hyperevmscan.io': 999, // HyperEVM
+  'solscan.io': 792703809, // Solana
+  'explorer.solana.com': 792703809,
+  'solana.fm': 792703809,
+  'eclipsescan.xyz': 9286185, // Eclipse
+  'explorer.eclipse.xyz': 9286185,
+  'mempool.space': 8253038, // Bitcoin
+  'blockstream.info': 8253038,
+  'tronscan.org': 728126428, // Tron
+  'suiscan.xyz': 103665049, // Sui
+  'suivision.xyz': 103665049,
+};
+
+const TESTNET_EXPLORER_CHAIN_IDS: Record<string, number> = {
+  'sepolia.etherscan.io': 11155111,
+  'holesky.etherscan.io': 17000,
+  'amoy.polygonscan.com': 80002,
+  'sepolia.arbiscan.io': 421614,
+  'sepolia-optimism.etherscan.io': 11155420,
+  'sepolia.basescan.org': 84532,
+  'testnet.bscscan.com': 97,
+  'solscan.io?cluster=devnet': 1936682084, // Solana devnet
+  'explorer.solana.com?cluster=devnet': 1936682084,
+  'solana.fm?cluster=devnet-solana': 1936682084,
+  'solana.fm?cluster=devnet-alpha': 1936682084,
+};
+
+export const RELAY_ENVIRONMENTS: Record<Exclude<RelayEnvironmentId, 'custom'>, RelayEnvironment> = {
+  mainnet: {
+    id: 'mainnet',
+    label: 'Mainnet',
+    apiBaseUrl: 'https://api.relay.link',
+    appUrl: 'https://relay.link',
+    staticExplorerChainIds: MAINNET_EXPLORER_CHAIN_IDS,
+  },
+  testnets: {
+    id: 'testnets',
+    label: 'Testnets',
+    apiBaseUrl: 'https://api.testnets.relay.link',
+    appUrl: 'https://testnets.relay.link',
+    staticExplorerChainIds: TESTNET_EXPLORER_CHAIN_IDS,
+  },
+};
+
+export const DEFAULT_ENVIRONMENT = RELAY_ENVIRONMENTS.mainnet;
+
+// A custom base URL (e.g. a local stand-in) may serve either network, so it gets both static tables;
+// mainnet entries win should a key ever appear in both
+export function createCustomEnvironment(apiBaseUrl: string, appUrl = DEFAULT_ENVIRONMENT.appUrl): RelayEnvironment {
+  return {
+    id: 'custom',
+    label: 'Custom',
+    apiBaseUrl: apiBaseUrl.replace(/\/+$/, ''),
+    appUrl,
+    staticExplorerChainIds: { ...TESTNET_EXPLORER_CHAIN_IDS, ...MAINNET_EXPLORER_CHAIN_IDS },
+  };
+}
+
+export function isValidApiBaseUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function resolveEnvironment(id: RelayEnvironmentId, customApiUrl?: string): RelayEnvironment {
+  if (id === 'custom') {
+    return customApiUrl && isValidApiBaseUrl(customApiUrl)
+      ? createCustomEnvironment(customApiUrl)
+      : DEFAULT_ENVIRONMENT;
+  }
+  return RELAY_ENVIRONMENTS[id] ?? DEFAULT_ENVIRONMENT;
+}
+
+// Environment an API base URL belongs to, e.g. the one a watchlist entry was indexed against
+export function findEnvironmentByApiUrl(apiBaseUrl: string): RelayEnvironment {
+  const normalized = apiBaseUrl.replace(/\/+$/, '');
+  return Object.values(RELAY_ENVIRONMENTS).find(environment => environment.apiBaseUrl === normalized)
+    ?? createCustomEnvironment(normalized);
+}
+
+// APIs a shared link may point an entry at: the built-in environments and the user's own custom
+// URL. Anything else could make the app send transactions to a host the user never chose.
+export function isTrustedApiBaseUrl(apiBaseUrl: string, customApiUrl?: string): boolean {
+  const normalized = apiBaseUrl.replace(/\/+$/, '');
+  return Object.values(RELAY_ENVIRONMENTS).some(environment => environment.apiBaseUrl === normalized)
+    || (!!customApiUrl && customApiUrl.replace(/\/+$/, '') === normalized);
+}
@@ -0,0 +1,209 @@
+export type RelayErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'validation'
+  | 'not-found'
+  | 'rate-limited'
+  | 'client'
+  | 'server'
+  | 'contract'
+  | 'rpc'
+  | 'unknown';
+
+interface RelayApiErrorOptions {
+  endpoint?: string;
+  requestBody?: unknown;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+export class RelayApiError extends Error {
+  readonly kind: RelayErrorKind;
+  readonly endpoint?: string;
+  readonly requestBody?: unknown;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(kind: RelayErrorKind, message: string, options: RelayApiErrorOptions = {}) {
+    super(message);
+    this.name = 'RelayApiError';
+    this.kind = kind;
+    this.endpoint = options.endpoint;
+    this.requestBody = options.requestBody;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
+// fetch() rejected before a response arrived (DNS, CORS, offline, connection reset)
+export class RelayNetworkError extends RelayApiError {
+  constructor(message: string, options: RelayApiErrorOptions = {}) {
+    super('network', message, { retryable: true, ...options });
+    this.name = 'RelayNetworkError';
+  }
+}
+
+// No response within the per-attempt timeout
+export class RelayTimeoutError extends RelayApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, options: RelayApiErrorOptions = {}) {
+    super('timeout', `Request${options.endpoint ? ` to ${options.endpoint}` : ''} timed out after ${timeoutMs}ms`, {
+      retryable: true,
+      ...options,
+    });
+    this.name = 'RelayTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// The caller cancelled the request; never shown to the user
+export class RelayAbortError extends RelayApiError {
+  constructor(options: RelayApiErrorOptions = {}) {
+    super('aborted', `Request${options.endpoint ? ` to ${options.endpoint}` : ''} was cancelled`, options);
+    this.name = 'RelayAbortError';
+  }
+}
+
+// Input rejected locally before any request was made
+export class RelayValidationError extends RelayApiError {
+  readonly field?: string;
+
+  constructor(message: string, field?: string, options: RelayApiErrorOptions = {}) {
+    super('validation', message, options);
+    this.name = 'RelayValidationError';
+    this.field = field;
+  }
+}
+
+interface RelayHttpErrorOptions extends RelayApiErrorOptions {
+  status: number;
+  statusText?: string;
+  code?: string;
+  responseBody?: unknown;
+  retryAfterMs?: number;
+}
+
+// The API answered with a non-2xx status
+export class RelayHttpError extends RelayApiError {
+  readonly status: number;
+  readonly statusText?: string;
+  readonly code?: string;
+  readonly responseBody?: unknown;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: RelayHttpErrorOptions) {
+    const kind = kindFromStatus(options.status);
+    super(kind, message, {
+      retryable: kind === 'rate-limited' || kind === 'server',
+      ...options,
+    });
+    this.name = 'RelayHttpError';
+    this.status = options.status;
+    this.statusText = options.statusText;
+    this.code = options.code;
+    this.responseBody = options.responseBody;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export interface ContractIssue {
+  path: string;
+  message: string;
+}
+
+// A 2xx response whose body no longer matches the shape we expect
+export class RelayContractError extends RelayApiError {
+  readonly issues: ContractIssue[];
+  readonly responseBody?: unknown;
+
+  constructor(issues: ContractIssue[], options: RelayApiErrorOptions & { responseBody?: unknown } = {}) {
+    const fields = issues.map(issue => issue.path || '(root)').join(', ');
+    super('contract', `API contract changed${options.endpoint ? ` for ${options.endpoint}` : ''}: unexpected ${fields}`, options);
+    this.name = 'RelayContractError';
+    this.issues = issues;
+    this.responseBody = options.responseBody;
+  }
+}
+
+interface RpcErrorOptions extends RelayApiErrorOptions {
+  code?: number; // JSON-RPC error code, absent for transport failures
+  data?: unknown;
+}
+
+// A chain's JSON-RPC node was unreachable or answered with an error; never blocks indexing
+export class RpcError extends RelayApiError {
+  readonly code?: number;
+  readonly data?: unknown;
+
+  constructor(message: string, options: RpcErrorOptions = {}) {
+    super('rpc', message, options);
+    this.name = 'RpcError';
+    this.code = options.code;
+    this.data = options.data;
+  }
+}
+
+function kindFromStatus(status: number): RelayErrorKind {
+  if (status === 404) return 'not-found';
+  if (status === 429) return 'rate-limited';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'client';
+  return 'unknown';
+}
+
+export function isRelayApiError(err: unknown): err is RelayApiError {
+  return err instanceof RelayApiError;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof RelayAbortError || (err instanceof DOMException && err.name === 'AbortError');
+}
+
+export function toRelayApiError(err: unknown): RelayApiError {
+  if (err instanceof RelayApiError) return err;
+  if (err instanceof Error) {
+    return new RelayApiError('unknown', err.message, { cause: err });
+  }
+  return new RelayApiError('unknown', 'An error occurred while processing the transaction', { cause: err });
+}
+
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 90) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// Short, user-facing explanation of what to do about an error of a given kind
+export function getErrorGuidance(err: RelayApiError): string {
+  switch (err.kind) {
+    case 'network':
+      return 'Network error. Please check your internet connection and try again.';
+    case 'timeout':
+      return 'The Relay API took too long to respond. Please try again in a few seconds.';
+    case 'aborted':
+      return 'The request was cancelled.';
+    case 'validation':
+      return 'Please check the transaction URL or hash and try again.';
+    case 'not-found':
+      return 'Transaction not found. Please ensure the transaction URL is correct and the transaction exists on the blockchain.';
+    case 'rate-limited': {
+      const retryAfterMs = err instanceof RelayHttpError ? err.retryAfterMs : undefined;
+      return retryAfterMs
+        ? `Too many requests to the Relay API. Please wait ${formatWait(retryAfterMs)} and try again.`
+        : 'Too many requests to the Relay API. Please wait a moment and try again.';
+    }
+    case 'client':
+      return 'Invalid request. Please check that the transaction URL is from a supported blockchain explorer.';
+    case 'server':
+      return 'Relay service is temporarily unavailable. Please try again in a few minutes.';
+    case 'contract':
+      return 'The Relay API returned data in an unexpected format. This app may need an update.';
+    case 'rpc':
+      return "Could not check the transaction with the chain's RPC node. You can still index it.";
+    default:
+      return 'An unexpected error occurred. Please try again.';
+  }
+}
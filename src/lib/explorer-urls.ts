@@ -0,0 +1,112 @@
+import { Chain } from './types';
+import { getExplorerHost, normalizeHost } from './chain-registry';
+import { getTxHashFormat } from './tx-hash';
+
+const TX_HASH_PLACEHOLDER = '{txHash}';
+const DEFAULT_TRANSACTION_PATH = `/tx/${TX_HASH_PLACEHOLDER}`;
+
+export interface ExplorerMatcher {
+  chainId: number;
+  host: string;
+  pattern: RegExp; // Matched against path + query + fragment; group 1 is the hash
+}
+
+export interface ExplorerUrlMatch {
+  chain: Chain;
+  hash: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function parseUrl(input: string): URL | null {
+  try {
+    return new URL(input.includes('://') ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+}
+
+// Turns a chain's explorerUrl + explorerPaths.transaction template (e.g. "/tx/{txHash}") into a
+// matcher. Explorers hosted under a path (https://explorer.example/chain-a) keep that prefix.
+export function buildExplorerMatcher(chain: Chain): ExplorerMatcher | null {
+  const host = getExplorerHost(chain);
+  const base = parseUrl(chain.explorerUrl);
+  if (!host || !base) return null;
+
+  const template = chain.explorerPaths?.transaction || DEFAULT_TRANSACTION_PATH;
+  const placeholderIndex = template.indexOf(TX_HASH_PLACEHOLDER);
+  if (placeholderIndex === -1) return null;
+
+  const basePath = base.pathname.replace(/\/+$/, '');
+  const prefix = `${basePath}${template.startsWith('/') ? '' : '/'}${template.slice(0, placeholderIndex)}`;
+  const suffix = template.slice(placeholderIndex + TX_HASH_PLACEHOLDER.length);
+
+  return {
+    chainId: chain.id,
+    host,
+    pattern: new RegExp(`^${escapeRegExp(prefix)}([^/?#&]+)${escapeRegExp(suffix)}(?:[/?#&]|$)`),
+  };
+}
+
+function safeDecode(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+// Every enabled chain whose explorer serves this transaction URL. More than one match means
+// several chains share the explorer and the caller has to ask which one was meant.
+export function matchExplorerUrl(input: string, chains: Chain[]): ExplorerUrlMatch[] {
+  const url = parseUrl(input.trim());
+  if (!url) return [];
+
+  const host = normalizeHost(url.hostname);
+  const target = `${url.pathname}${url.search}${url.hash}`;
+  const matches: ExplorerUrlMatch[] = [];
+
+  for (const chain of chains) {
+    if (chain.disabled) continue;
+    const matcher = buildExplorerMatcher(chain);
+    if (!matcher || matcher.host !== host) continue;
+
+    const match = target.match(matcher.pattern);
+    if (!match) continue;
+
+    const hash = safeDecode(match[1]);
+    if (hash === null) continue; // Malformed escape: not a hash this template can serve
+    // Chains whose VM has no registered format accept whatever the template captured
+    const format = getTxHashFormat(chain.vmType);
+    if (format && !format.pattern.test(hash)) continue;
+    matches.push({ chain, hash: format ? format.normalize(hash) : hash });
+  }
+
+  return matches;
+}
+
+// Static-table chain for a host. Hosts must match exactly: testnet explorers are subdomains of
+// mainnet ones (sepolia.etherscan.io), so a parent-domain match would pick the mainnet chain.
+export function matchStaticExplorerDomain(input: string, table: Record<string, number>): number | undefined {
+  const url = parseUrl(input.trim());
+  if (!url) return undefined;
+  const host = normalizeHost(url.hostname);
+  // Solana explorers share one host across clusters; no cluster (or a mainnet one) means mainnet
+  const cluster = url.searchParams.get('cluster');
+  if (cluster && !/^mainnet/.test(cluster)) {
+    return table[`${host}?cluster=${cluster}`];
+  }
+  return table[host];
+}
+
+// Explorer page for a transaction on a chain, built from the same template the matchers use
+export function getExplorerTxUrl(chain: Pick<Chain, 'explorerUrl' | 'explorerPaths'>, hash: string): string | null {
+  if (!chain.explorerUrl) return null;
+  const template = chain.explorerPaths?.transaction || DEFAULT_TRANSACTION_PATH;
+  if (!template.includes(TX_HASH_PLACEHOLDER)) return null;
+
+  const path = template.replace(TX_HASH_PLACEHOLDER, encodeURIComponent(hash));
+  return `${chain.explorerUrl.replace(/\/+$/, '')}${path.startsWith('/') ? '' : '/'}${path}`;
+}
@@ -0,0 +1,4 @@
+// Shortens hashes and request IDs for labels and table cells, e.g. 0x12345678...9abcdef0
+export function truncateHash(hash: string): string {
+  return hash.length > 20 ? `${hash.slice(0, 10)}...${hash.slice(-8)}` : hash;
+}
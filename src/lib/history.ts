@@ -0,0 +1,111 @@
+import { HistoryEntry, MonitoringState } from './types';
+import { getAggregateStatus, getEntryStatuses, isFinalAggregateStatus } from './request-status';
+
+// Oldest entries are dropped beyond this so the KV value stays small
+export const MAX_HISTORY_ENTRIES = 500;
+
+export interface HistoryUpdate {
+  transactionHash: string;
+  chainId?: number;
+  apiBaseUrl: string;
+  requestId?: string;
+  status?: string;
+  error?: string;
+  submittedAt?: string; // Only set when the transaction was (re-)submitted; resumes keep the original
+}
+
+export type HistoryStatusFilter = 'all' | 'in-progress' | 'success' | 'failure' | 'refund' | 'partial' | 'error';
+
+export interface HistoryFilters {
+  query: string;
+  chainId: number | 'all';
+  status: HistoryStatusFilter;
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = { query: '', chainId: 'all', status: 'all' };
+
+export function getHistoryId({ apiBaseUrl, chainId, transactionHash }: Pick<HistoryUpdate, 'apiBaseUrl' | 'chainId' | 'transactionHash'>): string {
+  return `${apiBaseUrl}|${chainId ?? ''}|${transactionHash.toLowerCase()}`;
+}
+
+export function historyUpdateFromState(state: MonitoringState, fallbackApiBaseUrl: string): HistoryUpdate {
+  const submitted = state.timeline?.find(event => event.type === 'submitted');
+  return {
+    transactionHash: state.transactionHash,
+    chainId: state.chainId,
+    apiBaseUrl: state.apiBaseUrl ?? fallbackApiBaseUrl,
+    requestId: state.requestId,
+    status: getAggregateStatus(getEntryStatuses(state)),
+    error: state.error,
+    submittedAt: submitted?.at,
+  };
+}
+
+// True when applying `update` would change the stored entry
+export function isHistoryChanged(entries: HistoryEntry[], update: HistoryUpdate): boolean {
+  const existing = entries.find(entry => entry.id === getHistoryId(update));
+  if (!existing) return true;
+  return (update.requestId !== undefined && update.requestId !== existing.requestId)
+    || (update.status !== undefined && update.status !== existing.status)
+    || update.error !== existing.error
+    || (update.submittedAt !== undefined && update.submittedAt !== existing.submittedAt);
+}
+
+export function upsertHistory(entries: HistoryEntry[], update: HistoryUpdate, at: Date = new Date()): HistoryEntry[] {
+  if (!isHistoryChanged(entries, update)) return entries;
+
+  const id = getHistoryId(update);
+  const existing = entries.find(entry => entry.id === id);
+  const now = at.toISOString();
+  const resubmitted = !!update.submittedAt && update.submittedAt !== existing?.submittedAt;
+  const status = update.status ?? (resubmitted ? undefined : existing?.status);
+
+  const entry: HistoryEntry = {
+    id,
+    transactionHash: update.transactionHash,
+    chainId: update.chainId,
+    apiBaseUrl: update.apiBaseUrl,
+    requestId: update.requestId ?? existing?.requestId,
+    status,
+    error: update.error,
+    submittedAt: update.submittedAt ?? existing?.submittedAt ?? now,
+    updatedAt: now,
+    completedAt: isFinalAggregateStatus(status) ? (resubmitted ? undefined : existing?.completedAt) ?? now : undefined,
+  };
+
+  return [entry, ...entries.filter(e => e.id !== id)].slice(0, MAX_HISTORY_ENTRIES);
+}
+
+function matchesStatus(entry: HistoryEntry, status: HistoryStatusFilter): boolean {
+  switch (status) {
+    case 'all':
+      return true;
+    case 'error':
+      return !!entry.error;
+    case 'in-progress':
+      return !entry.error && !isFinalAggregateStatus(entry.status);
+    default:
+      return entry.status === status;
+  }
+}
+
+export function filterHistory(entries: HistoryEntry[], filters: HistoryFilters): HistoryEntry[] {
+  const query = filters.query.trim().toLowerCase();
+  // Date inputs are local calendar days
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+
+  return entries
+    .filter(entry => {
+      if (query && !entry.transactionHash.toLowerCase().includes(query) && !entry.requestId?.toLowerCase().includes(query)) {
+        return false;
+      }
+      if (filters.chainId !== 'all' && entry.chainId !== filters.chainId) return false;
+      if (!matchesStatus(entry, filters.status)) return false;
+      const submittedAt = new Date(entry.submittedAt).getTime();
+      return submittedAt >= from && submittedAt <= to;
+    })
+    .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+}
@@ -0,0 +1,61 @@
+export type JsonChangeKind = 'added' | 'removed' | 'changed';
+
+export interface JsonChange {
+  path: string; // e.g. "data.outTxs[0].hash"; empty for the root
+  kind: JsonChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Latest payload of one endpoint for one request, with the fields that changed the last time
+// a poll returned something different
+export interface PayloadSnapshot {
+  payload: unknown;
+  receivedAt: string;
+  changes: JsonChange[];
+  changedAt?: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON path of a child, e.g. "data.outTxs" + 0 -> "data.outTxs[0]"
+export const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// Structural diff down to leaf values; arrays are compared index by index
+export function diffJson(before: unknown, after: unknown, path = ''): JsonChange[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      if (i >= before.length) changes.push({ path: childPath(path, i), kind: 'added', after: after[i] });
+      else if (i >= after.length) changes.push({ path: childPath(path, i), kind: 'removed', before: before[i] });
+      else changes.push(...diffJson(before[i], after[i], childPath(path, i)));
+    }
+    return changes;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: JsonChange[] = [];
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!(key in after)) changes.push({ path: childPath(path, key), kind: 'removed', before: before[key] });
+      else if (!(key in before)) changes.push({ path: childPath(path, key), kind: 'added', after: after[key] });
+      else changes.push(...diffJson(before[key], after[key], childPath(path, key)));
+    }
+    return changes;
+  }
+
+  return Object.is(before, after) ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+export function nextPayloadSnapshot(prev: PayloadSnapshot | undefined, payload: unknown, at: Date = new Date()): PayloadSnapshot {
+  const receivedAt = at.toISOString();
+  if (!prev) {
+    return { payload, receivedAt, changes: [] };
+  }
+
+  const changes = diffJson(prev.payload, payload);
+  return changes.length > 0
+    ? { payload, receivedAt, changes, changedAt: receivedAt }
+    : { ...prev, payload, receivedAt };
+}
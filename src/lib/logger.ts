@@ -0,0 +1,155 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const LOG_LEVEL_STORAGE_KEY = 'relay-log-level';
+const LOG_BUFFER_SIZE = 500;
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  data?: unknown;
+}
+
+// Fixed-size buffer that drops the oldest entries; listeners get a fresh snapshot on every push
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private readonly listeners = new Set<() => void>();
+
+  constructor(private readonly capacity: number) {}
+
+  push(item: T): void {
+    this.items = [...this.items.slice(-(this.capacity - 1)), item];
+    this.listeners.forEach(listener => listener());
+  }
+
+  update(predicate: (item: T) => boolean, patch: (item: T) => T): void {
+    this.items = this.items.map(item => (predicate(item) ? patch(item) : item));
+    this.listeners.forEach(listener => listener());
+  }
+
+  snapshot(): T[] {
+    return this.items;
+  }
+
+  clear(): void {
+    this.items = [];
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// EVM addresses are unambiguous and masked anywhere. Other wallet formats look like hashes and
+// IDs (base58 signatures, Sui digests), so they are only masked where context says they are a
+// wallet: the user= query parameter and the address fields below.
+const EVM_ADDRESS_PATTERN = /(?<![a-fA-F0-9])0x[a-fA-F0-9]{40}(?![a-fA-F0-9])/g;
+const USER_QUERY_PATTERN = /([?&]user=)([^&#\s"]+)/gi;
+const ADDRESS_KEY_PATTERN = /^(user|sender|recipient|refundTo|address|wallet)$/i;
+const SECRET_KEY_PATTERN = /^(authorization|x-api-key|api[-_]?key|apikey|token|secret)$/i;
+const SECRET_QUERY_PATTERN = /([?&](?:api[-_]?key|apikey|token|secret)=)[^&#\s"]+/gi;
+
+const maskAddress = (address: string) => (address.includes('…') ? address : `${address.slice(0, 6)}…${address.slice(-4)}`);
+
+function redactString(value: string): string {
+  return value
+    .replace(EVM_ADDRESS_PATTERN, maskAddress)
+    .replace(USER_QUERY_PATTERN, (_, prefix: string, user: string) => `${prefix}${maskAddress(user)}`)
+    .replace(SECRET_QUERY_PATTERN, '$1[redacted]');
+}
+
+// Masks wallet addresses and anything that looks like a credential, recursively
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object' || depth > 8) return value;
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+  if (value instanceof Error) return { name: value.name, message: redactString(value.message) };
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key)
+        ? '[redacted]'
+        : ADDRESS_KEY_PATTERN.test(key) && typeof entry === 'string' && entry.length > 10
+          ? maskAddress(entry)
+          : redact(entry, depth + 1),
+    ]),
+  );
+}
+
+function readStoredLevel(): LogLevel | null {
+  try {
+    const stored = localStorage.getItem(LOG_LEVEL_STORAGE_KEY);
+    return stored && stored in LOG_LEVEL_ORDER ? (stored as LogLevel) : null;
+  } catch {
+    return null;
+  }
+}
+
+let minLevel: LogLevel = readStoredLevel() ?? (import.meta.env.DEV ? 'debug' : 'info');
+let nextEntryId = 1;
+
+export const logBuffer = new RingBuffer<LogEntry>(LOG_BUFFER_SIZE);
+
+export function getLogLevel(): LogLevel {
+  return minLevel;
+}
+
+export function setLogLevel(level: LogLevel): void {
+  minLevel = level;
+  try {
+    localStorage.setItem(LOG_LEVEL_STORAGE_KEY, level);
+  } catch {
+    // Not persisted; the level still applies for this session
+  }
+}
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+}
+
+export function createLogger(namespace: string): Logger {
+  const log = (level: LogLevel, message: string, data?: unknown) => {
+    if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[minLevel]) return;
+
+    const entry: LogEntry = {
+      id: nextEntryId++,
+      timestamp: Date.now(),
+      level,
+      namespace,
+      message: redactString(message),
+      data: data === undefined ? undefined : redact(data),
+    };
+    logBuffer.push(entry);
+
+    const prefix = `[${namespace}]`;
+    const args = entry.data === undefined ? [prefix, entry.message] : [prefix, entry.message, entry.data];
+    if (level === 'error') console.error(...args);
+    else if (level === 'warn') console.warn(...args);
+    else if (level === 'info') console.info(...args);
+    else console.debug(...args);
+  };
+
+  return {
+    debug: (message, data) => log('debug', message, data),
+    info: (message, data) => log('info', message, data),
+    warn: (message, data) => log('warn', message, data),
+    error: (message, data) => log('error', message, data),
+  };
+}
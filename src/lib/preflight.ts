@@ -0,0 +1,175 @@
+import { Chain } from './types';
+import { isAbortError, toRelayApiError } from './errors';
+import { JsonRpcClient, RpcCallOptions, getRpcUrl } from './rpc';
+import { createLogger } from './logger';
+import { beginApiCall, completeApiCall } from './api-trace';
+import { TransactionClassification, classifyTransaction, getRelayAddresses } from './relay-contracts';
+
+const log = createLogger('preflight');
+
+// Shorter than a normal RPC call: a probe fans out to every chain and one slow node should not hold it up
+const PROBE_TIMEOUT_MS = 5 * 1000;
+
+export type PreflightStatus =
+  | 'success' // Mined and succeeded
+  | 'reverted' // Mined but reverted
+  | 'pending' // Known to the node but not mined yet
+  | 'not-found' // The node has never seen the hash
+  | 'unsupported' // Chain has no EVM JSON-RPC endpoint
+  | 'unavailable'; // The RPC node could not be queried
+
+export interface TransactionPreflight {
+  chainId: number;
+  rpcUrl?: string;
+  status: PreflightStatus;
+  blockNumber?: number;
+  confirmations?: number;
+  blockTimestamp?: number; // Unix seconds
+  from?: string;
+  to?: string | null; // null for contract creations
+  input?: string; // Calldata, when the transaction itself was fetched
+  classification?: TransactionClassification; // Set once the transaction was found
+  error?: string;
+}
+
+interface RpcReceipt {
+  status?: string;
+  blockNumber: string;
+  from: string;
+  to: string | null;
+}
+
+interface RpcTransaction {
+  blockNumber: string | null;
+  from: string;
+  to: string | null;
+  input: string;
+}
+
+interface RpcBlock {
+  timestamp: string;
+}
+
+const hexToNumber = (hex: string) => parseInt(hex, 16);
+
+export function isEvmChain(chain: Pick<Chain, 'vmType' | 'httpRpcUrl'>): boolean {
+  return (!chain.vmType || chain.vmType === 'evm') && /^https?:\/\//.test(chain.httpRpcUrl);
+}
+
+// Looks the transaction up on the chain itself before it is submitted to Relay
+export async function preflightTransaction(
+  chain: Pick<Chain, 'id' | 'vmType' | 'httpRpcUrl' | 'contracts' | 'solverAddresses'>,
+  txHash: string,
+  options: RpcCallOptions & { client?: JsonRpcClient } = {},
+): Promise<TransactionPreflight> {
+  if (!isEvmChain(chain)) {
+    return { chainId: chain.id, status: 'unsupported' };
+  }
+
+  const client = options.client ?? new JsonRpcClient(getRpcUrl(chain));
+  const { signal } = options;
+  const base = { chainId: chain.id, rpcUrl: client.url };
+  const classify = (tx: { to?: string | null; input?: string }) => classifyTransaction(tx, getRelayAddresses(chain));
+
+  try {
+    const [receipt, transaction, head] = await Promise.all([
+      client.call<RpcReceipt | null>('eth_getTransactionReceipt', [txHash], { signal }),
+      client.call<RpcTransaction | null>('eth_getTransactionByHash', [txHash], { signal }),
+      client.call<string>('eth_blockNumber', [], { signal }),
+    ]);
+
+    if (!receipt) {
+      return transaction
+        ? {
+          ...base,
+          status: 'pending',
+          from: transaction.from,
+          to: transaction.to,
+          input: transaction.input,
+          confirmations: 0,
+          classification: classify(transaction),
+        }
+        : { ...base, status: 'not-found' };
+    }
+
+    const blockNumber = hexToNumber(receipt.blockNumber);
+    const block = await client.call<RpcBlock | null>('eth_getBlockByNumber', [receipt.blockNumber, false], { signal });
+
+    return {
+      ...base,
+      // Pre-Byzantium receipts have no status field; treat them as successful
+      status: receipt.status === '0x0' ? 'reverted' : 'success',
+      blockNumber,
+      confirmations: Math.max(0, hexToNumber(head) - blockNumber + 1),
+      blockTimestamp: block ? hexToNumber(block.timestamp) : undefined,
+      from: receipt.from,
+      to: receipt.to,
+      input: transaction?.input,
+      classification: transaction ? classify(transaction) : undefined,
+    };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    log.warn(`Preflight for ${txHash} on chain ${chain.id} failed`, err);
+    return { ...base, status: 'unavailable', error: toRelayApiError(err).message };
+  }
+}
+
+// Asks every EVM chain's RPC node in parallel whether it knows the transaction, to find the
+// chain of a bare hash. Nodes that fail or are slow count as "not found". The probes share one
+// API trace entry so they do not push the Relay API calls out of the trace.
+export async function findTransactionChains(
+  chains: Pick<Chain, 'id' | 'vmType' | 'httpRpcUrl'>[],
+  txHash: string,
+  options: RpcCallOptions = {},
+): Promise<number[]> {
+  const probed = chains.filter(isEvmChain);
+  const callId = beginApiCall('POST', 'rpc:*', 'rpc:eth_getTransactionByHash', { txHash, chainIds: probed.map(chain => chain.id) });
+  let failed = 0;
+  try {
+    const found = await Promise.all(probed.map(async chain => {
+      try {
+        const client = new JsonRpcClient(getRpcUrl(chain), { timeoutMs: PROBE_TIMEOUT_MS, trace: false });
+        const transaction = await client.call<RpcTransaction | null>('eth_getTransactionByHash', [txHash], options);
+        return transaction ? chain.id : null;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        failed++;
+        return null;
+      }
+    }));
+    const foundIds = found.filter((id): id is number => id !== null);
+    completeApiCall(callId, { responseBody: { found: foundIds, failed } });
+    return foundIds;
+  } catch (err) {
+    completeApiCall(callId, { error: toRelayApiError(err).message });
+    throw err;
+  }
+}
+
+function getClassificationWarning(classification: TransactionClassification | undefined): string | null {
+  switch (classification?.kind) {
+    case 'erc20-approve':
+      return 'This is a token approval, not a bridge deposit. Paste the deposit transaction sent after it.';
+    case 'unrelated':
+      return 'This transaction did not interact with a known Relay contract, so it is probably not a Relay deposit.';
+    default:
+      return null;
+  }
+}
+
+// Reason to confirm before indexing, or null when the transaction looks fine
+export function getPreflightWarning(preflight: TransactionPreflight): string | null {
+  switch (preflight.status) {
+    case 'reverted':
+      return 'This transaction reverted on-chain. Relay cannot fill a reverted deposit.';
+    case 'not-found':
+      return "The chain's RPC node does not know this transaction. Check the hash and the chain.";
+    case 'pending':
+      return 'This transaction has not been mined yet. Relay will only pick it up once it is confirmed.';
+    case 'success':
+      // A receipt means the transaction is mined; unmined ones are reported as 'pending'
+      return getClassificationWarning(preflight.classification);
+    default:
+      return null;
+  }
+}
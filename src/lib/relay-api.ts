@@ -1,40 +1,246 @@
-import { Chain, IndexTransactionRequest, TransactionRequest, RequestStatusResponse } from './types';
-
-const RELAY_API_BASE = 'https://api.relay.link';
-
-class RelayApiService {
-  private async makeRequest<T>(endpoint: string, options?: RequestInit): Promise<T> {
-    const url = `${RELAY_API_BASE}${endpoint}`;
-    console.log('Making request to:', url);
-    console.log('Request options:', {
-      method: options?.method || 'GET',
-      headers: options?.headers,
-      body: options?.body,
-    });
-    
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        ...options?.headers,
-      },
-    });
+import { Chain, IndexTransactionRequest, TransactionRequest, RequestStatusResponse, RequestsPage } from './types';
+import {
+  RelayAbortError,
+  RelayApiError,
+  RelayContractError,
+  RelayHttpError,
+  RelayNetworkError,
+  RelayTimeoutError,
+  RelayValidationError,
+  isAbortError,
+} from './errors';
+import {
+  DEFAULT_RETRY_POLICY,
+  INDEX_RETRY_POLICY,
+  NO_RETRY_POLICY,
+  RetryListener,
+  RetryPolicy,
+  computeRetryDelay,
+  delay,
+  parseRetryAfter,
+  shouldRetry,
+} from './retry';
+import {
+  indexTransactionResponseSchema,
+  parseChains,
+  parseResponse,
+  requestStatusResponseSchema,
+  requestsResponseSchema,
+} from './schemas';
+import { ChainRegistry, normalizeHost } from './chain-registry';
+import { DEFAULT_ENVIRONMENT, RELAY_ENVIRONMENTS, RelayEnvironment, findEnvironmentByApiUrl } from './environments';
+import { createLogger } from './logger';
+import { beginApiCall, completeApiCall } from './api-trace';
+import { getTxHashFormat, isValidTxHash, parseTxHash } from './tx-hash';
+import { matchExplorerUrl, matchStaticExplorerDomain } from './explorer-urls';
+
+const log = createLogger('relay-api');
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const REQUESTS_PAGE_LIMIT = 50; // Largest page /requests accepts
+const MAX_REQUEST_PAGES = 20; // Upper bound for a single iterateRequests walk
+const REQUEST_ID_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+
+export interface RelayApiServiceOptions {
+  environment?: RelayEnvironment;
+  // Per-endpoint overrides keyed by path without query string, e.g. '/requests'
+  retryPolicies?: Record<string, Partial<RetryPolicy>>;
+  timeoutMs?: number; // Per attempt, not across retries
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  onRetry?: RetryListener; // Called before each retry of this request
+  baseUrl?: string; // Pins a request to one environment regardless of later switches
+  onResponse?: (body: unknown) => void; // Receives each raw response body before it is validated
+}
+
+export interface RequestsQuery {
+  hash?: string;
+  user?: string;
+  limit?: number;
+  sortBy?: 'createdAt' | 'updatedAt';
+  sortDirection?: 'asc' | 'desc';
+  continuation?: string;
+}
+
+export type ChainDetectionSource = 'explorer' | 'static' | 'path' | 'hash' | 'request';
+
+export interface ChainDetection {
+  hash: string | null; // For 'request', the request's origin transaction
+  candidates: Chain[]; // Several when an explorer is shared or only a bare hash was given
+  source: ChainDetectionSource | null;
+  requestId?: string; // Set when the input was a Relay request rather than a transaction
+  requestStatus?: RequestStatusResponse;
+  wrongEnvironment?: string; // Label of the environment whose explorer the URL belongs to
+}
+
+export interface ChainDetectionOptions extends RequestOptions {
+  // Also look up bare 0x hashes as request IDs; costs one status call per input
+  resolveRequestIds?: boolean;
+}
+
+const RESPONSE_SNIPPET_LENGTH = 200;
+
+const snippet = (body: string) => {
+  const trimmed = body.trim().replace(/\s+/g, ' ');
+  return trimmed.length > RESPONSE_SNIPPET_LENGTH ? `${trimmed.slice(0, RESPONSE_SNIPPET_LENGTH)}…` : trimmed;
+};
+
+export class RelayApiService {
+  private readonly retryPolicies: Record<string, Partial<RetryPolicy>>;
+  private readonly timeoutMs: number;
+  private readonly chainRegistries = new Map<string, ChainRegistry>();
+  private currentEnvironment: RelayEnvironment;
+
+  constructor(options: RelayApiServiceOptions = {}) {
+    this.currentEnvironment = options.environment ?? DEFAULT_ENVIRONMENT;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retryPolicies = {
+      '/transactions/index': INDEX_RETRY_POLICY,
+      ...options.retryPolicies,
+    };
+  }
+
+  get environment(): RelayEnvironment {
+    return this.currentEnvironment;
+  }
+
+  setEnvironment(environment: RelayEnvironment): void {
+    this.currentEnvironment = environment;
+  }
+
+  // One registry per API base URL so chain lists never leak between environments
+  get chains(): ChainRegistry {
+    const baseUrl = this.currentEnvironment.apiBaseUrl;
+    let registry = this.chainRegistries.get(baseUrl);
+    if (!registry) {
+      registry = new ChainRegistry(() => this.fetchChains(baseUrl), `relay-chains:${baseUrl}`);
+      this.chainRegistries.set(baseUrl, registry);
+    }
+    return registry;
+  }
+
+  // Links to the app of the environment the request lives in, defaulting to the current one
+  getTransactionUrl(requestId: string, apiBaseUrl = this.currentEnvironment.apiBaseUrl): string {
+    return `${findEnvironmentByApiUrl(apiBaseUrl).appUrl}/transaction/${requestId}`;
+  }
 
-    console.log('Response status:', response.status, response.statusText);
-    console.log('Response headers:', Object.fromEntries(response.headers.entries()));
+  private getRetryPolicy(endpoint: string, method: string): RetryPolicy {
+    const path = endpoint.split('?')[0];
+    const base = method === 'GET' ? DEFAULT_RETRY_POLICY : NO_RETRY_POLICY;
+    return { ...base, ...this.retryPolicies[path] };
+  }
+
+  private async makeRequest<T>(endpoint: string, init?: RequestInit, options: RequestOptions = {}): Promise<T> {
+    const policy = this.getRetryPolicy(endpoint, init?.method || 'GET');
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const data = await this.executeRequest<T>(endpoint, init, options);
+        options.onResponse?.(data);
+        return data;
+      } catch (error) {
+        if (!shouldRetry(error, attempt, policy)) {
+          throw error;
+        }
+
+        const retryAfterMs = error instanceof RelayHttpError ? error.retryAfterMs : undefined;
+        const delayMs = computeRetryDelay(attempt, policy, retryAfterMs);
+        log.warn(`Retrying ${endpoint} in ${delayMs}ms (attempt ${attempt + 1}/${policy.maxAttempts})`, { error: (error as RelayApiError).message });
+        options.onRetry?.({
+          endpoint,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          delayMs,
+          error: error as RelayApiError,
+        });
+        try {
+          await delay(delayMs, options.signal);
+        } catch {
+          throw new RelayAbortError({ endpoint, requestBody: init?.body });
+        }
+      }
+    }
+  }
+
+  // One attempt, bounded by the per-attempt timeout and the caller's signal
+  private async executeRequest<T>(endpoint: string, init: RequestInit | undefined, options: RequestOptions): Promise<T> {
+    const { signal } = options;
+    const baseUrl = options.baseUrl ?? this.currentEnvironment.apiBaseUrl;
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    if (signal?.aborted) {
+      throw new RelayAbortError({ endpoint, requestBody: init?.body });
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const callId = beginApiCall(init?.method || 'GET', `${baseUrl}${endpoint}`, endpoint, init?.body);
+
+    try {
+      return await this.fetchJson<T>(callId, baseUrl, endpoint, { ...init, signal: controller.signal });
+    } catch (error) {
+      const failure = timedOut
+        ? new RelayTimeoutError(timeoutMs, { endpoint, requestBody: init?.body, cause: error })
+        : signal?.aborted
+          ? new RelayAbortError({ endpoint, requestBody: init?.body, cause: error })
+          : error;
+      completeApiCall(callId, {
+        status: failure instanceof RelayHttpError ? failure.status : undefined,
+        responseBody: failure instanceof RelayHttpError || failure instanceof RelayContractError ? failure.responseBody : undefined,
+        error: failure instanceof Error ? failure.message : String(failure),
+      });
+      throw failure;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async fetchJson<T>(callId: number, baseUrl: string, endpoint: string, options?: RequestInit): Promise<T> {
+    const url = `${baseUrl}${endpoint}`;
+    log.debug(`${options?.method || 'GET'} ${url}`, options?.body ? { body: options.body } : undefined);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...options,
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          ...options?.headers,
+        },
+      });
+    } catch (fetchError) {
+      throw new RelayNetworkError(
+        `Network request to ${endpoint} failed: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`,
+        { endpoint, requestBody: options?.body, cause: fetchError },
+      );
+    }
+
+    log.debug(`${response.status} ${response.statusText} from ${endpoint}`);
 
     if (!response.ok) {
       let errorMessage = `API request failed: ${response.status} ${response.statusText}`;
+      let errorCode: string | undefined;
+      let responseBody: unknown;
       
       try {
         const errorBody = await response.text();
-        console.log('Error response body:', errorBody);
+        responseBody = errorBody;
         
         // Try to parse as JSON to get more detailed error info
         try {
           const errorJson = JSON.parse(errorBody);
-          console.log('Parsed error JSON:', errorJson);
+          responseBody = errorJson;
           
           if (errorJson.message) {
             errorMessage = errorJson.message;
@@ -45,83 +251,171 @@ class RelayApiService {
           } else if (typeof errorJson === 'string') {
             errorMessage = errorJson;
           }
+
+          if (typeof errorJson?.errorCode === 'string') {
+            errorCode = errorJson.errorCode;
+          } else if (typeof errorJson?.code === 'string') {
+            errorCode = errorJson.code;
+          }
         } catch {
           if (errorBody) {
             errorMessage += ` - ${errorBody}`;
           }
         }
       } catch (parseError) {
-        console.log('Could not parse error response:', parseError);
+        log.debug('Could not read error response body', parseError);
       }
       
-      throw new Error(errorMessage);
+      throw new RelayHttpError(errorMessage, {
+        status: response.status,
+        statusText: response.statusText,
+        code: errorCode,
+        responseBody,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+        endpoint,
+        requestBody: options?.body,
+      });
     }
 
     const contentType = response.headers.get('content-type');
-    if (contentType && contentType.includes('application/json')) {
-      const responseData = await response.json();
-      console.log('Success response:', responseData);
-      return responseData;
-    } else {
-      // For non-JSON responses, return a generic success object
-      console.log('Non-JSON response received');
+    const body = await response.text();
+    const isJson = !!contentType && contentType.includes('application/json');
+
+    if (isJson && body.trim()) {
+      try {
+        const responseData = JSON.parse(body);
+        completeApiCall(callId, { status: response.status, responseBody: responseData });
+        return responseData as T;
+      } catch (parseError) {
+        // Typically a proxy or gateway page served with a JSON content type
+        throw new RelayContractError([{ path: '', message: `Response body is not valid JSON: ${snippet(body)}` }], {
+          endpoint,
+          requestBody: options?.body,
+          responseBody: body,
+          cause: parseError,
+        });
+      }
+    }
+
+    // The index endpoint may acknowledge with an empty or plain-text body
+    if (options?.method === 'POST' && endpoint === '/transactions/index') {
+      log.debug(`Non-JSON response received from ${endpoint}`);
+      completeApiCall(callId, { status: response.status, responseBody: body || undefined });
       return { success: true } as T;
     }
+
+    // Anything else, e.g. a captive portal answering 200 with HTML, is not the API
+    throw new RelayContractError([{
+      path: '',
+      message: body.trim()
+        ? `Expected JSON but got ${contentType || 'no content type'}: ${snippet(body)}`
+        : 'Response body is empty',
+    }], { endpoint, requestBody: options?.body, responseBody: body });
   }
 
-  async getChains(): Promise<Chain[]> {
-    const response = await this.makeRequest<{ chains: Chain[] }>('/chains');
-    return response.chains;
+  // Served from the shared chain registry; use relayApi.chains for lookups by id or explorer host
+  async getChains(options: RequestOptions = {}): Promise<Chain[]> {
+    return this.chains.getChains(options);
   }
 
-  async indexTransaction(request: IndexTransactionRequest): Promise<{ success: boolean }> {
-    console.log('Indexing transaction with request:', request);
-    console.log('Request URL:', `${RELAY_API_BASE}/transactions/index`);
-    
-    // Validate the request data before sending
-    if (!request.hash || !request.hash.startsWith('0x') || request.hash.length !== 66) {
-      throw new Error(`Invalid hash format: ${request.hash}. Expected 0x followed by 64 hex characters.`);
+  private async fetchChains(baseUrl: string): Promise<Chain[]> {
+    const data = await this.makeRequest<unknown>('/chains', undefined, { baseUrl });
+    const { chains, skipped } = parseChains(data, '/chains');
+    if (skipped.length > 0) {
+      log.warn(`Skipped ${skipped.length} chain(s) from /chains that did not match the expected shape`, { ids: skipped });
     }
+    return chains;
+  }
+
+  async indexTransaction(request: IndexTransactionRequest, options: RequestOptions = {}): Promise<{ success: boolean }> {
+    log.info(`Indexing transaction ${request.hash} on chain ${request.chainId}`);
     
+    // Validate the request data before sending
     if (!request.chainId || !Number.isInteger(request.chainId)) {
-      throw new Error(`Invalid chainId: ${request.chainId}. Expected a valid integer.`);
+      throw new RelayValidationError(`Invalid chainId: ${request.chainId}. Expected a valid integer.`, 'chainId', {
+        endpoint: '/transactions/index',
+        requestBody: request,
+      });
     }
-    
+
+    // The hash format depends on the chain's VM. An unknown chain accepts any known format and the
+    // hash is sent as entered, since normalizing it for the wrong VM could corrupt it.
+    const chain = await this.chains.getChainById(request.chainId, options).catch(error => {
+      if (isAbortError(error)) throw error;
+      return undefined;
+    });
+    const format = chain ? getTxHashFormat(chain.vmType) : undefined;
+    if (!request.hash || !isValidTxHash(request.hash, format?.vmType)) {
+      throw new RelayValidationError(
+        `Invalid hash format: ${request.hash}. Expected a valid ${format?.label ?? 'transaction hash'} for chain ${request.chainId}.`,
+        'hash',
+        { endpoint: '/transactions/index', requestBody: request },
+      );
+    }
+
     // API actually expects 'txHash' not 'hash' based on the error message
     const requestBody = {
-      txHash: request.hash,
+      txHash: format ? format.normalize(request.hash) : request.hash,
       chainId: request.chainId
     };
     
-    console.log('Request body being sent:', JSON.stringify(requestBody, null, 2));
-    
     // According to https://docs.relay.link/references/api/transactions-index
     // The request should include txHash and chainId in the body
-    const response = await this.makeRequest('/transactions/index', {
+    const data = await this.makeRequest<unknown>('/transactions/index', {
       method: 'POST',
       body: JSON.stringify(requestBody),
-    });
+    }, options);
+    parseResponse(indexTransactionResponseSchema, data, '/transactions/index');
     
     // The API returns success with a 200 status code
     // The response might be empty or contain minimal data
     return { success: true };
   }
 
-  async getRequestsByTxHash(txHash: string): Promise<TransactionRequest[]> {
-    // Using the correct endpoint as per https://docs.relay.link/references/api/get-requests
-    // This endpoint allows us to get the request ID using the transaction hash
-    const params = new URLSearchParams({ hash: txHash });
-    console.log('Getting requests for tx hash:', txHash, 'from endpoint: /requests');
-    const response = await this.makeRequest<{ requests: TransactionRequest[] }>(`/requests?${params}`);
-    // API returns {requests: [...]} so we need to unwrap it
-    return response.requests || [];
+  // One page of /requests as per https://docs.relay.link/references/api/get-requests
+  async getRequests(query: RequestsQuery, options: RequestOptions = {}): Promise<RequestsPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries({ limit: REQUESTS_PAGE_LIMIT, ...query })) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    log.debug(`Getting requests ${params}`);
+    const data = await this.makeRequest<unknown>(`/requests?${params}`, undefined, options);
+    return parseResponse(requestsResponseSchema, data, '/requests');
+  }
+
+  // Follows continuation tokens until the last page, or `maxPages` pages. The last yielded
+  // page's `continuation` resumes iteration where it stopped.
+  async *iterateRequests(
+    query: RequestsQuery,
+    { maxPages = MAX_REQUEST_PAGES, ...options }: RequestOptions & { maxPages?: number } = {},
+  ): AsyncGenerator<RequestsPage> {
+    let continuation = query.continuation;
+    for (let page = 0; page < maxPages; page++) {
+      const result = await this.getRequests({ ...query, continuation }, options);
+      // An empty page with a continuation would otherwise walk every remaining page
+      const done = !result.continuation || result.requests.length === 0;
+      yield done ? { ...result, continuation: undefined } : result;
+      if (done) return;
+      continuation = result.continuation;
+    }
   }
 
-  async getRequestStatus(requestId: string): Promise<RequestStatusResponse> {
+  // Every request for a transaction hash, newest first. A hash usually maps to one request,
+  // but batched deposits and multi-step intents can produce several.
+  async getRequestsByTxHash(txHash: string, options: RequestOptions = {}): Promise<TransactionRequest[]> {
+    const requests: TransactionRequest[] = [];
+    for await (const page of this.iterateRequests({ hash: txHash, sortBy: 'createdAt', sortDirection: 'desc' }, options)) {
+      requests.push(...page.requests);
+    }
+    return requests;
+  }
+
+  async getRequestStatus(requestId: string, options: RequestOptions = {}): Promise<RequestStatusResponse> {
     // Using the correct v3 endpoint as per https://docs.relay.link/references/api/get-intents-status-v3
     // This endpoint provides the complete status of the transaction using the request ID
-    console.log('Getting status for request ID:', requestId, 'from endpoint: /intents/status/v3');
-    const response = await this.makeRequest<Omit<RequestStatusResponse, 'requestId'>>(`/intents/status/v3?requestId=${requestId}`);
+    log.debug(`Getting status for request ID ${requestId}`);
+    const data = await this.makeRequest<unknown>(`/intents/status/v3?${new URLSearchParams({ requestId })}`, undefined, options);
+    const response = parseResponse(requestStatusResponseSchema, data, '/intents/status/v3');
     // Add the requestId to the response since the API doesn't return it
     return {
       ...response,
@@ -129,135 +423,131 @@ class RelayApiService {
     };
   }
 
+  // Accepts a bare hash or an explorer transaction URL for any supported VM. Uses the cached
+  // chain list for explorer templates; call detectChains to also resolve the chain.
   extractTxHashFromUrl(url: string): string | null {
-    // If it's already a transaction hash, return it
-    if (/^0x[a-fA-F0-9]{64}$/.test(url.trim())) {
-      return url.trim();
-    }
-
-    // Common blockchain explorer patterns
-    const patterns = [
-      // Ethereum mainnet/testnets
-      /etherscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-      /sepolia\.etherscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-      /goerli\.etherscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-      
-      // Polygon
-      /polygonscan\.com\/tx\/(0x[a-fA-F0-9]{64})/,
-      /mumbai\.polygonscan\.com\/tx\/(0x[a-fA-F0-9]{64})/,
-      
-      // Arbitrum
-      /arbiscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-      /nova\.arbiscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-      /testnet\.arbiscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-      
-      // Optimism
-      /optimistic\.etherscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-      /goerli-optimism\.etherscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-      
-      // Base
-      /basescan\.org\/tx\/(0x[a-fA-F0-9]{64})/,
-      /goerli\.basescan\.org\/tx\/(0x[a-fA-F0-9]{64})/,
-      
-      // BSC
-      /bscscan\.com\/tx\/(0x[a-fA-F0-9]{64})/,
-      /testnet\.bscscan\.com\/tx\/(0x[a-fA-F0-9]{64})/,
-      
-      // HyperEVM
-      /hyperevmscan\.io\/tx\/(0x[a-fA-F0-9]{64})/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = url.match(pattern);
-      if (match) {
-        return match[1];
-      }
-    }
-
-    return null;
+    const cached = this.chains.peek();
+    const explorerMatch = cached ? matchExplorerUrl(url, cached)[0] : undefined;
+    return explorerMatch?.hash ?? parseTxHash(url)?.hash ?? null;
   }
 
-  async getSupportedChainNames(): Promise<string[]> {
+  async getSupportedChainNames(options: RequestOptions = {}): Promise<string[]> {
     try {
-      const chains = await this.getChains();
+      const chains = await this.chains.listIndexableChains(options);
       const chainNames = chains
-        .filter(chain => !chain.disabled && chain.depositEnabled)
         .map(chain => chain.displayName || chain.name)
         .sort();
       
-      console.log('Supported chain names:', chainNames);
       return chainNames;
     } catch (error) {
-      console.error('Error fetching supported chains:', error);
+      if (isAbortError(error)) throw error;
+      log.error('Error fetching supported chains', error);
       // Fallback to static list
       return ['Ethereum', 'Polygon', 'Arbitrum', 'Base', 'BSC', 'Optimism'];
     }
   }
 
-  async getChainIdFromUrl(url: string): Promise<number | null> {
-    console.log('Getting chain ID for URL:', url);
-    
+  // Request ID from a relay.link transaction link, e.g. https://relay.link/transaction/0x…
+  extractRequestIdFromUrl(input: string): string | null {
+    let url: URL;
     try {
-      // Get all chains from the API first
-      console.log('Fetching chains from API...');
-      const chains = await this.getChains();
-      console.log('Available chains:', chains.map(c => ({ id: c.id, name: c.name, explorer: c.explorerUrl })));
-      
-      // First, try to match by explorer URL from API
-      for (const chain of chains) {
-        if (chain.explorerUrl && url.includes(new URL(chain.explorerUrl).hostname)) {
-          console.log(`Found chain by explorer URL: ${chain.name} (${chain.id}) - ${chain.explorerUrl}`);
-          return chain.id;
-        }
-      }
-      
-      // Fallback to static mappings for common patterns
-      const staticMappings: Record<string, number> = {
-        'etherscan.io': 1,
-        'sepolia.etherscan.io': 11155111,
-        'goerli.etherscan.io': 5,
-        'polygonscan.com': 137,
-        'mumbai.polygonscan.com': 80001,
-        'arbiscan.io': 42161,
-        'nova.arbiscan.io': 42170,
-        'testnet.arbiscan.io': 421613,
-        'optimistic.etherscan.io': 10,
-        'goerli-optimism.etherscan.io': 420,
-        'basescan.org': 8453,
-        'goerli.basescan.org': 84531,
-        'bscscan.com': 56,
-        'testnet.bscscan.com': 97,
-        'hyperevmscan.io': 999, // HyperEVM
-      };
-
-      // Check static mappings and verify chain is supported
-      for (const [domain, chainId] of Object.entries(staticMappings)) {
-        if (url.includes(domain)) {
-          const chainExists = chains.find(c => c.id === chainId);
-          if (chainExists) {
-            console.log(`Found supported chain: ${chainExists.name} (${chainId})`);
-            return chainId;
-          } else {
-            console.log(`Chain ${chainId} found but not supported by Relay Protocol`);
-          }
-        }
+      url = new URL(input.trim());
+    } catch {
+      return null;
+    }
+
+    const host = normalizeHost(url.hostname);
+    const isRelayApp = host === 'relay.link' || host.endsWith('.relay.link') || input.trim().startsWith(this.currentEnvironment.appUrl);
+    const match = url.pathname.match(/^\/transaction\/(0x[a-fA-F0-9]{64})\/?$/);
+    return isRelayApp && match ? match[1].toLowerCase() : null;
+  }
+
+  // Which chains a pasted URL or hash could belong to. Explorer URLs are matched against the
+  // live /chains explorer templates first; the environment's static table is only a fallback.
+  // relay.link links and request IDs resolve to the request's origin transaction.
+  async detectChains(input: string, { resolveRequestIds = false, ...options }: ChainDetectionOptions = {}): Promise<ChainDetection> {
+    const url = input.trim();
+    const chains = (await this.getChains(options)).filter(chain => !chain.disabled);
+
+    const linkedRequestId = this.extractRequestIdFromUrl(url);
+    const requestId = linkedRequestId ?? (resolveRequestIds && REQUEST_ID_PATTERN.test(url) ? url.toLowerCase() : null);
+    if (requestId) {
+      const requestStatus = await this.getRequestStatus(requestId, options).catch(error => {
+        if (isAbortError(error)) throw error;
+        log.debug(`No status for ${requestId}`, error);
+        return undefined;
+      });
+      const originTxHash = requestStatus?.inTxHashes[0];
+      // A bare hash only counts as a request ID when Relay knows an origin transaction for it
+      if (linkedRequestId || originTxHash) {
+        const originChain = chains.find(chain => chain.id === requestStatus?.originChainId);
+        return {
+          hash: originTxHash ?? null,
+          candidates: originTxHash && originChain ? [originChain] : [],
+          source: 'request',
+          requestId,
+          requestStatus,
+        };
       }
+    }
 
-      // Try to extract chain ID from URL path
-      const chainPathMatch = url.match(/\/chain\/(\d+)\//);
-      if (chainPathMatch) {
-        const chainId = parseInt(chainPathMatch[1]);
-        const chainExists = chains.find(c => c.id === chainId);
-        if (chainExists) {
-          console.log(`Found supported chain from URL path: ${chainExists.name} (${chainId})`);
-          return chainId;
-        }
+    const explorerMatches = matchExplorerUrl(url, chains);
+    if (explorerMatches.length > 0) {
+      if (explorerMatches.length > 1) {
+        log.debug(`Explorer URL matches ${explorerMatches.length} chains`, explorerMatches.map(match => match.chain.id));
       }
+      return { hash: explorerMatches[0].hash, candidates: explorerMatches.map(match => match.chain), source: 'explorer' };
+    }
+
+    const parsed = parseTxHash(url);
+    if (!parsed) {
+      return { hash: null, candidates: [], source: null };
+    }
+
+    const staticChainId = matchStaticExplorerDomain(url, this.currentEnvironment.staticExplorerChainIds);
+    const staticChain = chains.find(chain => chain.id === staticChainId);
+    if (staticChain) {
+      log.debug(`Found chain from static explorer table: ${staticChain.name} (${staticChain.id})`);
+      return { hash: parsed.hash, candidates: [staticChain], source: 'static' };
+    }
 
-      console.log('No supported chain found for URL:', url);
+    // A testnet explorer link on mainnet (or the reverse) must not fall through to the bare-hash
+    // candidates, where the same hash would be offered on the wrong network
+    const otherEnvironment = Object.values(RELAY_ENVIRONMENTS).find(environment => (
+      environment.id !== this.currentEnvironment.id
+      && staticChainId === undefined
+      && matchStaticExplorerDomain(url, environment.staticExplorerChainIds) !== undefined
+    ));
+    if (otherEnvironment) {
+      log.debug(`Explorer URL belongs to the ${otherEnvironment.label} environment`);
+      return { hash: parsed.hash, candidates: [], source: 'static', wrongEnvironment: otherEnvironment.label };
+    }
+
+    const chainPathMatch = url.match(/\/chain\/(\d+)\//);
+    const pathChain = chainPathMatch ? chains.find(chain => chain.id === parseInt(chainPathMatch[1])) : undefined;
+    if (pathChain) {
+      log.debug(`Found supported chain from URL path: ${pathChain.name} (${pathChain.id})`);
+      return { hash: parsed.hash, candidates: [pathChain], source: 'path' };
+    }
+
+    // A bare hash (or an unknown explorer) fits every indexable chain with a matching VM
+    const candidates = chains.filter(chain => chain.depositEnabled && parsed.vmTypes.includes(chain.vmType ?? 'evm'));
+    log.debug(`No explorer match; ${candidates.length} chain(s) accept ${parsed.vmTypes.join('/')} hashes`);
+    return { hash: parsed.hash, candidates, source: 'hash' };
+  }
+
+  // The chain a URL belongs to, or null when it is unknown or ambiguous
+  async getChainIdFromUrl(url: string, options: RequestOptions = {}): Promise<number | null> {
+    try {
+      const { candidates } = await this.detectChains(url, options);
+      if (candidates.length === 1) {
+        return candidates[0].id;
+      }
+      log.debug(`No single supported chain found for URL: ${url} (${candidates.length} candidates)`);
       return null;
     } catch (error) {
-      console.error('Error detecting chain:', error);
+      if (isAbortError(error)) throw error;
+      log.error('Error detecting chain', error);
       return null;
     }
   }
@@ -0,0 +1,89 @@
+import { Chain } from './types';
+
+// Deployed at the same address on every EVM chain Relay supports; per-chain deployments
+// reported by /chains are added on top
+export const DEFAULT_RELAY_ADDRESSES: Record<string, string> = {
+  '0xa5f565650890fba1824ee0f21ebbbf660a179934': 'Relay Receiver',
+  '0xf70da97812cb96acdf810712aa562db8dfa3dbef': 'Relay Solver',
+};
+
+const ERC20_TRANSFER_SELECTOR = '0xa9059cbb';
+const ERC20_APPROVE_SELECTOR = '0x095ea7b3';
+const WORD_HEX_LENGTH = 64;
+
+export type TransactionKind = 'relay-deposit' | 'erc20-approve' | 'unrelated';
+
+export interface TransactionClassification {
+  kind: TransactionKind;
+  contractLabel?: string; // Which Relay contract received the deposit or approval
+  spender?: string; // Approvals only
+  requestId?: string; // Decoded from deposit calldata when present
+}
+
+// /chains `contracts` roles that receive deposits or approvals. The same map also lists generic
+// helpers such as multicall3, which would otherwise make any multicall look like a Relay deposit.
+const RELAY_CONTRACT_ROLES = new Map([
+  ['relayReceiver', 'Relay Receiver'],
+  ['relayRouter', 'Relay Router'],
+  ['erc20Router', 'Relay ERC-20 Router'],
+  ['approvalProxy', 'Relay Approval Proxy'],
+]);
+
+// Lower-cased Relay address -> label for one chain
+export function getRelayAddresses(chain: Pick<Chain, 'contracts' | 'solverAddresses'>): Map<string, string> {
+  const addresses = new Map(Object.entries(DEFAULT_RELAY_ADDRESSES));
+  for (const [role, address] of Object.entries(chain.contracts ?? {})) {
+    const label = RELAY_CONTRACT_ROLES.get(role);
+    if (label && typeof address === 'string' && /^0x[a-fA-F0-9]{40}$/.test(address)) {
+      addresses.set(address.toLowerCase(), label);
+    }
+  }
+  for (const address of chain.solverAddresses ?? []) {
+    addresses.set(address.toLowerCase(), 'Relay Solver');
+  }
+  return addresses;
+}
+
+// ABI words are left-padded; addresses are the low 20 bytes
+function wordToAddress(word: string): string {
+  return `0x${word.slice(-40)}`.toLowerCase();
+}
+
+function wordAt(data: string, index: number): string | undefined {
+  const word = data.slice(index * WORD_HEX_LENGTH, (index + 1) * WORD_HEX_LENGTH);
+  return word.length === WORD_HEX_LENGTH ? word : undefined;
+}
+
+// Relay deposits carry the request ID as calldata: the whole calldata of a native transfer, or
+// a 32-byte suffix after the arguments of an ERC-20 transfer
+export function classifyTransaction(
+  tx: { to?: string | null; input?: string },
+  relayAddresses: Map<string, string>,
+): TransactionClassification {
+  const to = tx.to?.toLowerCase();
+  const input = (tx.input ?? '0x').toLowerCase();
+  const selector = input.slice(0, 10);
+  const args = input.slice(10);
+
+  if (selector === ERC20_APPROVE_SELECTOR) {
+    const spenderWord = wordAt(args, 0);
+    const spender = spenderWord ? wordToAddress(spenderWord) : undefined;
+    return { kind: 'erc20-approve', spender, contractLabel: spender ? relayAddresses.get(spender) : undefined };
+  }
+
+  if (selector === ERC20_TRANSFER_SELECTOR) {
+    const recipientWord = wordAt(args, 0);
+    const recipient = recipientWord ? wordToAddress(recipientWord) : undefined;
+    if (recipient && relayAddresses.has(recipient)) {
+      const suffix = wordAt(args, 2);
+      return { kind: 'relay-deposit', contractLabel: relayAddresses.get(recipient), requestId: suffix && `0x${suffix}` };
+    }
+  }
+
+  if (to && relayAddresses.has(to)) {
+    const requestId = input.length === 2 + WORD_HEX_LENGTH ? input : undefined;
+    return { kind: 'relay-deposit', contractLabel: relayAddresses.get(to), requestId };
+  }
+
+  return { kind: 'unrelated' };
+}
@@ -0,0 +1,108 @@
+import { AppFee, Currency, CurrencyAmount, RequestFees, TransactionFee, TransactionRequestData } from './types';
+
+// /requests reports feesUsd as integer micro-dollars (6 decimals)
+const USD_DECIMALS = 6;
+const MAX_FRACTION_DIGITS = 6;
+
+export interface BreakdownFee {
+  label: string;
+  fee: TransactionFee;
+  amountUsd?: string; // Plain dollars, e.g. "1.25"
+}
+
+export interface RequestBreakdown {
+  sender?: string;
+  recipient?: string;
+  currencyIn?: CurrencyAmount;
+  currencyOut?: CurrencyAmount;
+  rate?: string;
+  fees: BreakdownFee[];
+  appFees: BreakdownFee[];
+  refund?: CurrencyAmount;
+  failReason?: string;
+  subsidized: boolean;
+}
+
+const FEE_LABELS: Record<keyof RequestFees, string> = {
+  gas: 'Gas',
+  fixed: 'Relayer fee',
+  price: 'Relayer price impact',
+};
+
+// Integer amount in a currency's smallest unit -> decimal string, trimmed to a readable precision
+export function formatUnits(amount: string, decimals: number, maxFractionDigits = MAX_FRACTION_DIGITS): string {
+  let value: bigint;
+  try {
+    value = BigInt(amount);
+  } catch {
+    return amount; // Already formatted or not an integer
+  }
+
+  const negative = value < BigInt(0);
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals, digits.length - decimals + maxFractionDigits).replace(/0+$/, '');
+  if (value !== BigInt(0) && whole === '0' && !fraction) {
+    return `${negative ? '>-' : '<'}0.${'0'.repeat(maxFractionDigits - 1)}1`; // Dust below the shown precision
+  }
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+export function formatCurrencyAmount(amount: string, currency: Pick<Currency, 'decimals' | 'symbol'>): string {
+  return `${formatUnits(amount, currency.decimals)} ${currency.symbol}`;
+}
+
+// Prefers the API's own formatting when present
+export function formatAmount(value: CurrencyAmount): string {
+  return value.amountFormatted
+    ? `${value.amountFormatted} ${value.currency.symbol}`
+    : formatCurrencyAmount(value.amount, value.currency);
+}
+
+export function formatUsd(amountUsd: string | undefined): string | undefined {
+  if (!amountUsd) return undefined;
+  const value = Number(amountUsd);
+  if (!Number.isFinite(value)) return undefined;
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: value < 0.01 && value > 0 ? 4 : 2 });
+}
+
+function getAppFees(fees: AppFee[] | undefined, currency: Currency | undefined): BreakdownFee[] {
+  if (!fees || !currency) return [];
+  return fees.map(fee => ({
+    label: `App fee (${Number(fee.bps) / 100}%)`,
+    fee: { amount: fee.amount, currency },
+    amountUsd: fee.amountUsd,
+  }));
+}
+
+export function getRequestBreakdown(data: TransactionRequestData | undefined): RequestBreakdown {
+  const metadata = data?.metadata;
+  const feeCurrency = data?.currencyObject;
+
+  const fees: BreakdownFee[] = [];
+  for (const key of Object.keys(FEE_LABELS) as (keyof RequestFees)[]) {
+    const amount = data?.fees?.[key];
+    if (amount === undefined || !feeCurrency) continue;
+    const amountUsd = data?.feesUsd?.[key];
+    fees.push({
+      label: FEE_LABELS[key],
+      fee: { amount, currency: feeCurrency },
+      amountUsd: amountUsd !== undefined ? formatUnits(amountUsd, USD_DECIMALS) : undefined,
+    });
+  }
+
+  return {
+    sender: metadata?.sender,
+    recipient: metadata?.recipient,
+    currencyIn: metadata?.currencyIn,
+    currencyOut: metadata?.currencyOut,
+    rate: metadata?.rate,
+    fees,
+    // Paid app fees are what was actually charged; the quoted ones are shown until then.
+    // App fees are taken in the input currency.
+    appFees: getAppFees(data?.paidAppFees?.length ? data.paidAppFees : data?.appFees, metadata?.currencyIn?.currency),
+    refund: data?.refundCurrencyData,
+    failReason: data?.failReason,
+    subsidized: data?.subsidizedRequest ?? false,
+  };
+}
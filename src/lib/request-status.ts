@@ -0,0 +1,154 @@
+import {
+  MonitoringState,
+  RequestStatusResponse,
+  RequestTransaction,
+  TimelineEvent,
+  TransactionRequest,
+  TransactionStatusCheck,
+} from './types';
+
+// Statuses after which Relay will not change the request any further
+export const TERMINAL_STATUSES = ['success', 'failure', 'refund'] as const;
+
+// Observed while a request is still in progress; anything unrecognised is treated the same way
+export const NON_TERMINAL_STATUSES = ['waiting', 'pending', 'delayed', 'submitted'] as const;
+
+export function isTerminalStatus(status: string | undefined): boolean {
+  return !!status && (TERMINAL_STATUSES as readonly string[]).includes(status);
+}
+
+export function appendTimelineEvent(
+  timeline: TimelineEvent[] | undefined,
+  event: Omit<TimelineEvent, 'at'>,
+  at: Date = new Date(),
+): TimelineEvent[] {
+  return [...(timeline ?? []), { ...event, at: at.toISOString() }];
+}
+
+// Overall status of a hash with several requests: the shared status when they agree,
+// 'pending' while any is still in flight, 'partial' when they finished differently
+export function getAggregateStatus(statuses: Pick<RequestStatusResponse, 'status'>[]): string | undefined {
+  if (statuses.length === 0) return undefined;
+  const distinct = [...new Set(statuses.map(details => details.status))];
+  if (distinct.length === 1) return distinct[0];
+  if (statuses.some(details => !isTerminalStatus(details.status))) return 'pending';
+  return 'partial';
+}
+
+// True once an aggregate status can no longer change
+export function isFinalAggregateStatus(status: string | undefined): boolean {
+  return status === 'partial' || isTerminalStatus(status);
+}
+
+// Entries saved before multi-request support only carry `transactionDetails`
+export function getEntryStatuses(state: MonitoringState): RequestStatusResponse[] {
+  return state.requestStatuses ?? (state.transactionDetails ? [state.transactionDetails] : []);
+}
+
+// Request IDs a poll should check; undefined until /requests has produced any
+export function getRequestIdsToPoll(state: MonitoringState, includeTerminal = false): string[] | undefined {
+  const statuses = getEntryStatuses(state);
+  if (statuses.length === 0) return state.requestId ? [state.requestId] : undefined;
+  const ids = statuses
+    .filter(details => includeTerminal || !isTerminalStatus(details.status))
+    .map(details => details.requestId);
+  return ids.length > 0 ? ids : undefined;
+}
+
+// Events implied by a fresh status response that the timeline has not recorded yet
+function diffStatusEvents(timeline: TimelineEvent[], details: RequestStatusResponse): Omit<TimelineEvent, 'at'>[] {
+  const events: Omit<TimelineEvent, 'at'>[] = [];
+
+  if (!timeline.some(event => event.type === 'request-found' && event.requestId === details.requestId)) {
+    events.push({ type: 'request-found', requestId: details.requestId });
+  }
+
+  // Events recorded before multi-request support carry no request ID
+  const lastStatus = [...timeline]
+    .reverse()
+    .find(event => event.type === 'status' && (!event.requestId || event.requestId === details.requestId))?.status;
+  if (lastStatus !== details.status) {
+    events.push({ type: 'status', status: details.status, requestId: details.requestId });
+  }
+
+  const seenTxHashes = new Set(timeline.filter(event => event.type === 'destination-tx').map(event => event.txHash));
+  for (const txHash of details.txHashes ?? []) {
+    if (!seenTxHashes.has(txHash)) {
+      events.push({ type: 'destination-tx', txHash, requestId: details.requestId });
+    }
+  }
+
+  return events;
+}
+
+// Folds fresh status responses into a watchlist entry; monitoring continues until every
+// request matching the hash reaches a terminal status
+export function applyStatusCheck(
+  prev: MonitoringState,
+  { statuses, requests }: TransactionStatusCheck,
+  at: Date = new Date(),
+): MonitoringState {
+  let timeline = prev.timeline;
+  for (const details of statuses) {
+    for (const event of diffStatusEvents(timeline ?? [], details)) {
+      timeline = appendTimelineEvent(timeline, event, at);
+    }
+  }
+
+  const byId = new Map(getEntryStatuses(prev).map(details => [details.requestId, details]));
+  for (const details of statuses) {
+    byId.set(details.requestId, details);
+  }
+  const order = (requests ?? prev.matchingRequests ?? []).map(request => request.id);
+  const requestStatuses = [
+    ...order.filter(id => byId.has(id)).map(id => byId.get(id)!),
+    ...[...byId.values()].filter(details => !order.includes(details.requestId)),
+  ];
+  const selected = requestStatuses.find(details => details.requestId === prev.requestId) ?? requestStatuses[0];
+
+  return {
+    ...prev,
+    requestId: selected?.requestId,
+    transactionDetails: selected,
+    requestStatuses,
+    matchingRequests: requests
+      ? requests.map(({ id, status, createdAt, user, recipient, data }) => ({ id, status, createdAt, user, recipient, data }))
+      : prev.matchingRequests,
+    timeline,
+    isMonitoring: prev.isMonitoring && !requestStatuses.every(details => isTerminalStatus(details.status)),
+    lastChecked: at,
+  };
+}
+
+// Shows another request matching the same hash; every request is polled regardless
+export function selectMatchingRequest(prev: MonitoringState, requestId: string): MonitoringState {
+  if (prev.requestId === requestId) return prev;
+  return {
+    ...prev,
+    requestId,
+    transactionDetails: getEntryStatuses(prev).find(details => details.requestId === requestId),
+  };
+}
+
+export function isPastDeadline(deadlineAt: Date | string | undefined, now: number = Date.now()): boolean {
+  if (!deadlineAt) return false;
+  return new Date(deadlineAt).getTime() <= now;
+}
+
+// Non-terminal requests older than this are flagged as stuck in wallet lookups
+export const STUCK_REQUEST_THRESHOLD_MS = 30 * 60 * 1000;
+
+export function isStuckRequest(
+  request: Pick<TransactionRequest, 'status' | 'createdAt'>,
+  now: number = Date.now(),
+  thresholdMs: number = STUCK_REQUEST_THRESHOLD_MS,
+): boolean {
+  if (isTerminalStatus(request.status)) return false;
+  const createdAt = new Date(request.createdAt).getTime();
+  return !isNaN(createdAt) && now - createdAt > thresholdMs;
+}
+
+// The transaction a request originated from; this is what gets re-indexed
+export function getOriginTx(request: TransactionRequest): RequestTransaction | undefined {
+  return request.data?.inTxs?.[0];
+}
@@ -0,0 +1,103 @@
+import { RelayApiError, RelayHttpError } from './errors';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnStatuses: number[];
+  retryOnNetworkError: boolean; // Also covers per-attempt timeouts
+}
+
+export interface RetryAttempt {
+  endpoint: string;
+  attempt: number; // The attempt that just failed (1-based)
+  maxAttempts: number;
+  delayMs: number;
+  error: RelayApiError;
+}
+
+export type RetryListener = (attempt: RetryAttempt) => void;
+
+// Idempotent reads: safe to repeat on any transient failure
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  retryOnStatuses: [408, 425, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+// POST /transactions/index: only retry when the server tells us the request was not processed
+export const INDEX_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  retryOnStatuses: [429, 503],
+  retryOnNetworkError: false,
+};
+
+export const NO_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  retryOnStatuses: [],
+  retryOnNetworkError: false,
+};
+
+export function shouldRetry(error: unknown, attempt: number, policy: RetryPolicy): boolean {
+  if (attempt >= policy.maxAttempts) return false;
+  if (!(error instanceof RelayApiError)) return false;
+
+  if (error instanceof RelayHttpError) {
+    // Waiting longer than the policy allows would stall the caller; surface the wait instead
+    if (error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxDelayMs) return false;
+    return policy.retryOnStatuses.includes(error.status);
+  }
+  return (error.kind === 'network' || error.kind === 'timeout') && policy.retryOnNetworkError;
+}
+
+// Exponential backoff with full jitter; a server-provided Retry-After always wins (shouldRetry
+// has already given up on ones longer than maxDelayMs)
+export function computeRetryDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(Math.random() * exponential);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it is aborted
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
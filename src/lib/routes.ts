@@ -0,0 +1,67 @@
+import { isValidApiBaseUrl } from './environments';
+import { parseTxHash } from './tx-hash';
+
+// Hash routes, so deep links work under the GitHub Pages base path without server rewrites:
+//   #/tx/<chainId>/<hash>   #/request/<requestId>   #/wallet/<address>
+// Add ?reindex=1 to a transaction or request link to re-index it instead of only monitoring.
+// Transaction links may carry ?api=<apiBaseUrl> for the environment they were indexed against.
+export type AppRoute =
+  | { kind: 'home' }
+  | { kind: 'tx'; chainId: number; hash: string; reindex: boolean; apiBaseUrl?: string }
+  | { kind: 'request'; requestId: string; reindex: boolean }
+  | { kind: 'wallet'; address: string };
+
+const HOME: AppRoute = { kind: 'home' };
+
+// Links are shared by hand, so anything malformed falls back to the home view instead of throwing
+export function parseRoute(locationHash: string): AppRoute {
+  const [path, query = ''] = locationHash.replace(/^#/, '').split('?');
+  let segments: string[];
+  try {
+    segments = path.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+  } catch {
+    return HOME; // Malformed escape such as %E0%A4%A
+  }
+  const params = new URLSearchParams(query);
+  const reindex = ['1', 'true'].includes(params.get('reindex') ?? '');
+  const api = params.get('api');
+
+  switch (segments[0]) {
+    case 'tx': {
+      const chainId = Number(segments[1]);
+      const hash = segments[2] ? parseTxHash(segments[2])?.hash : undefined;
+      return Number.isInteger(chainId) && chainId > 0 && hash
+        ? { kind: 'tx', chainId, hash, reindex, apiBaseUrl: api && isValidApiBaseUrl(api) ? api : undefined }
+        : HOME;
+    }
+    case 'request':
+      return segments[1] ? { kind: 'request', requestId: segments[1], reindex } : HOME;
+    case 'wallet':
+      return segments[1] ? { kind: 'wallet', address: segments[1] } : HOME;
+    default:
+      return HOME;
+  }
+}
+
+export function formatRoute(route: AppRoute): string {
+  const params = new URLSearchParams();
+  if ('reindex' in route && route.reindex) params.set('reindex', '1');
+  if (route.kind === 'tx' && route.apiBaseUrl) params.set('api', route.apiBaseUrl);
+  const search = params.toString();
+  const query = search ? `?${search}` : '';
+  switch (route.kind) {
+    case 'tx':
+      return `#/tx/${route.chainId}/${encodeURIComponent(route.hash)}${query}`;
+    case 'request':
+      return `#/request/${encodeURIComponent(route.requestId)}${query}`;
+    case 'wallet':
+      return `#/wallet/${encodeURIComponent(route.address)}`;
+    case 'home':
+      return '';
+  }
+}
+
+// Absolute link to a route on the current deployment, base path included
+export function getRouteUrl(route: AppRoute): string {
+  return `${window.location.origin}${window.location.pathname}${formatRoute(route)}`;
+}
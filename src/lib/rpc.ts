@@ -0,0 +1,132 @@
+import { RelayAbortError, RelayTimeoutError, RpcError } from './errors';
+import { createLogger } from './logger';
+import { beginApiCall, completeApiCall } from './api-trace';
+
+const log = createLogger('rpc');
+
+const DEFAULT_RPC_TIMEOUT_MS = 10 * 1000;
+
+// JSON map of chain ID (or '*' for every chain) to an RPC URL used instead of the chain's
+// own httpRpcUrl, e.g. {"*": "http://localhost:8545"} to run against a local node. The '*'
+// entry is editable in the environment selector; per-chain entries only from the console.
+export const RPC_OVERRIDES_STORAGE_KEY = 'relay-rpc-overrides';
+export const ALL_CHAINS_RPC_KEY = '*';
+
+export function getRpcOverrides(): Record<string, string> {
+  try {
+    const overrides = JSON.parse(localStorage.getItem(RPC_OVERRIDES_STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+    return Object.fromEntries(Object.entries(overrides).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && !!entry[1]));
+  } catch {
+    return {}; // Malformed overrides are ignored
+  }
+}
+
+// An empty URL removes the override for that key
+export function setRpcOverride(key: string, url: string): void {
+  const { [key]: _removed, ...rest } = getRpcOverrides();
+  const next = url ? { ...rest, [key]: url } : rest;
+  try {
+    if (Object.keys(next).length > 0) localStorage.setItem(RPC_OVERRIDES_STORAGE_KEY, JSON.stringify(next));
+    else localStorage.removeItem(RPC_OVERRIDES_STORAGE_KEY);
+  } catch (err) {
+    log.warn('Could not save the RPC override', err);
+  }
+}
+
+export function getRpcUrl(chain: { id: number; httpRpcUrl: string }): string {
+  const overrides = getRpcOverrides();
+  return overrides[chain.id] ?? overrides[ALL_CHAINS_RPC_KEY] ?? chain.httpRpcUrl;
+}
+
+export interface JsonRpcClientOptions {
+  timeoutMs?: number;
+  fetch?: typeof fetch; // Swappable for a stand-in in tests
+  trace?: boolean; // Record calls in the API trace; off for fan-out probes that log a summary instead
+}
+
+export interface RpcCallOptions {
+  signal?: AbortSignal;
+}
+
+// Minimal JSON-RPC 2.0 client over HTTP; one client per RPC URL
+export class JsonRpcClient {
+  private nextId = 1;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl: typeof fetch;
+  private readonly trace: boolean;
+
+  constructor(readonly url: string, options: JsonRpcClientOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.trace = options.trace ?? true;
+  }
+
+  async call<T>(method: string, params: unknown[] = [], { signal }: RpcCallOptions = {}): Promise<T> {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params });
+    const endpoint = `rpc:${method}`;
+
+    if (signal?.aborted) {
+      throw new RelayAbortError({ endpoint, requestBody: body });
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const callId = this.trace ? beginApiCall('POST', this.url, endpoint, body) : null;
+    log.debug(`${method} via ${this.url}`, { params });
+    let status: number | undefined;
+    let payload: { result?: T; error?: { code: number; message: string; data?: unknown } } | null = null;
+
+    try {
+      let response: Response;
+      try {
+        response = await this.fetchImpl(this.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+          body,
+          signal: controller.signal,
+        });
+      } catch (fetchError) {
+        throw new RpcError(
+          `RPC request ${method} failed: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`,
+          { endpoint, requestBody: body, cause: fetchError },
+        );
+      }
+
+      status = response.status;
+      payload = await response.json().catch(() => null);
+
+      if (!response.ok || !payload) {
+        throw new RpcError(`RPC request ${method} failed: ${response.status} ${response.statusText}`, { endpoint, requestBody: body });
+      }
+      if (payload.error) {
+        throw new RpcError(`RPC error from ${method}: ${payload.error.message}`, {
+          endpoint,
+          requestBody: body,
+          code: payload.error.code,
+          data: payload.error.data,
+        });
+      }
+      if (callId !== null) completeApiCall(callId, { status, responseBody: payload });
+      return payload.result as T;
+    } catch (error) {
+      const failure = timedOut
+        ? new RelayTimeoutError(this.timeoutMs, { endpoint, requestBody: body, cause: error })
+        : signal?.aborted
+          ? new RelayAbortError({ endpoint, requestBody: body, cause: error })
+          : error;
+      if (callId !== null) {
+        completeApiCall(callId, { status, responseBody: payload ?? undefined, error: failure instanceof Error ? failure.message : String(failure) });
+      }
+      throw failure;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
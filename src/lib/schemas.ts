@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { RelayContractError } from './errors';
+import {
+  AppFee,
+  Chain,
+  Currency,
+  CurrencyAmount,
+  RequestFees,
+  RequestMetadata,
+  RequestStatusResponse,
+  RequestsPage,
+  RequestTransaction,
+  TransactionRequest,
+  TransactionRequestData,
+} from './types';
+
+// Schemas only pin down the fields the app reads; unknown fields pass through untouched
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export const chainSchema: Schema<Chain> = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  displayName: z.string(),
+  httpRpcUrl: z.string(),
+  wsRpcUrl: z.string().nullish(), // Unread
+  explorerUrl: z.string(),
+  explorerName: z.string().nullish(),
+  explorerPaths: z.object({
+    transaction: z.string().nullish(),
+  }).passthrough().nullish(),
+  depositEnabled: z.boolean(),
+  tokenSupport: z.string().nullish(), // Unread
+  disabled: z.boolean(),
+  vmType: z.string().optional(),
+  iconUrl: z.string().optional(),
+  logoUrl: z.string().optional(),
+  brandColor: z.string().optional(),
+  contracts: z.record(z.unknown()).optional(),
+  solverAddresses: z.array(z.string()).optional(),
+}).passthrough();
+
+// Chains are validated one by one (see parseChains) so one odd chain cannot hide all the others
+export const chainsResponseSchema: Schema<{ chains: unknown[] }> = z.object({
+  chains: z.array(z.unknown()),
+}).passthrough();
+
+// Valid chains plus the IDs of the ones dropped for not matching chainSchema. Throws when every
+// chain is invalid, since that means the contract itself changed.
+export function parseChains(data: unknown, endpoint: string): { chains: Chain[]; skipped: unknown[] } {
+  const entries = parseResponse(chainsResponseSchema, data, endpoint).chains;
+  const chains: Chain[] = [];
+  const skipped: unknown[] = [];
+  for (const entry of entries) {
+    const result = chainSchema.safeParse(entry);
+    if (result.success) chains.push(result.data);
+    else skipped.push((entry as { id?: unknown } | null)?.id);
+  }
+  if (entries.length > 0 && chains.length === 0) {
+    parseResponse(chainSchema, entries[0], endpoint);
+  }
+  return { chains, skipped };
+}
+
+const currencySchema: Schema<Currency> = z.object({
+  chainId: z.number(),
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number().int(),
+  metadata: z.object({
+    logoURI: z.string().optional(),
+    verified: z.boolean().optional(),
+    isNative: z.boolean().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+const currencyAmountSchema: Schema<CurrencyAmount> = z.object({
+  currency: currencySchema,
+  amount: z.string(),
+  amountFormatted: z.string().optional(),
+  amountUsd: z.string().optional(),
+  minimumAmount: z.string().optional(),
+}).passthrough();
+
+const requestFeesSchema: Schema<RequestFees> = z.object({
+  gas: z.string().optional(),
+  fixed: z.string().optional(),
+  price: z.string().optional(),
+}).passthrough();
+
+const requestTransactionSchema: Schema<RequestTransaction> = z.object({
+  hash: z.string(),
+  chainId: z.number(),
+  type: z.string().optional(),
+  fee: z.string().optional(),
+  block: z.number().optional(),
+  timestamp: z.number().optional(),
+  data: z.unknown().optional(),
+  stateChanges: z.array(z.unknown()).optional(),
+}).passthrough();
+
+const requestMetadataSchema: Schema<RequestMetadata> = z.object({
+  sender: z.string().optional(),
+  recipient: z.string().optional(),
+  currencyIn: currencyAmountSchema.optional(),
+  currencyOut: currencyAmountSchema.optional(),
+  rate: z.string().optional(),
+}).passthrough();
+
+const appFeeSchema: Schema<AppFee> = z.object({
+  recipient: z.string(),
+  bps: z.string(),
+  amount: z.string(),
+  amountUsd: z.string().optional(),
+}).passthrough();
+
+const transactionRequestDataSchema: Schema<TransactionRequestData> = z.object({
+  fees: requestFeesSchema.optional(),
+  feesUsd: requestFeesSchema.optional(),
+  inTxs: z.array(requestTransactionSchema).optional(),
+  outTxs: z.array(requestTransactionSchema).optional(),
+  currency: z.string().optional(),
+  currencyObject: currencySchema.optional(),
+  price: z.string().optional(),
+  usesExternalLiquidity: z.boolean().optional(),
+  timeEstimate: z.number().optional(),
+  metadata: requestMetadataSchema.optional(),
+  appFees: z.array(appFeeSchema).optional(),
+  paidAppFees: z.array(appFeeSchema).optional(),
+  refundCurrencyData: currencyAmountSchema.optional(),
+  failReason: z.string().optional(),
+  subsidizedRequest: z.boolean().optional(),
+}).passthrough();
+
+export const transactionRequestSchema: Schema<TransactionRequest> = z.object({
+  id: z.string(),
+  status: z.string(),
+  user: z.string(),
+  recipient: z.string(),
+  data: transactionRequestDataSchema.optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).passthrough();
+
+export const requestsResponseSchema: Schema<RequestsPage> = z.object({
+  requests: z.array(transactionRequestSchema).default([]),
+  continuation: z.string().optional(),
+}).passthrough();
+
+// The v3 status endpoint does not echo the request ID back; the client adds it
+export const requestStatusResponseSchema: Schema<Omit<RequestStatusResponse, 'requestId'>> = z.object({
+  status: z.string(),
+  details: z.string().optional(),
+  inTxHashes: z.array(z.string()).default([]),
+  txHashes: z.array(z.string()).default([]),
+  time: z.number().optional(),
+  updatedAt: z.number(),
+  originChainId: z.number(),
+  destinationChainId: z.number(),
+}).passthrough();
+
+export const indexTransactionResponseSchema: Schema<{ message?: string }> = z.object({
+  message: z.string().optional(),
+}).passthrough();
+
+export function parseResponse<T>(schema: Schema<T>, data: unknown, endpoint: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new RelayContractError(
+      result.error.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+      { endpoint, responseBody: data },
+    );
+  }
+  return result.data;
+}
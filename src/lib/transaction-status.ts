@@ -0,0 +1,83 @@
+import { relayApi, RequestOptions } from './relay-api';
+import { RequestStatusResponse, TransactionRequest, TransactionStatusCheck } from './types';
+import { isAbortError } from './errors';
+import { createLogger } from './logger';
+import { isTerminalStatus } from './request-status';
+
+const log = createLogger('monitoring');
+
+const MAX_TRACKED_REQUESTS = 10; // Status lookups per poll are capped for hashes with many requests
+
+type RawPayloads = TransactionStatusCheck['rawPayloads'];
+
+function getStatus(requestId: string, options: RequestOptions, raw: RawPayloads): Promise<RequestStatusResponse> {
+  return relayApi.getRequestStatus(requestId, { ...options, onResponse: body => { raw.status[requestId] = body; } });
+}
+
+// /requests pages hold many requests; each raw entry is filed under its own ID
+async function getRequests(txHash: string, options: RequestOptions, raw: RawPayloads): Promise<TransactionRequest[]> {
+  const requests = await relayApi.getRequestsByTxHash(txHash, {
+    ...options,
+    onResponse: body => {
+      const entries = (body as { requests?: unknown } | null)?.requests;
+      if (!Array.isArray(entries)) return;
+      for (const entry of entries) {
+        const id = (entry as { id?: unknown } | null)?.id;
+        if (typeof id === 'string') raw.request[id] = entry;
+      }
+    },
+  });
+  return requests.filter(request => !!request.id);
+}
+
+// Resolves a transaction hash to its Relay requests and each request's current status.
+// Returns null while Relay has not produced a request for the hash yet. Once the request IDs
+// are known, pass the ones still worth polling as `knownRequestIds` to skip the /requests lookup
+// until one of them finishes.
+export async function checkTransactionStatus(
+  txHash: string,
+  options: RequestOptions = {},
+  knownRequestIds?: string[],
+): Promise<TransactionStatusCheck | null> {
+  const rawPayloads: RawPayloads = { status: {}, request: {} };
+  try {
+    if (knownRequestIds && knownRequestIds.length > 0) {
+      const statuses = await Promise.all(knownRequestIds.map(id => getStatus(id, options, rawPayloads)));
+      if (!statuses.some(status => isTerminalStatus(status.status))) {
+        return { statuses, rawPayloads };
+      }
+      // A finished request's final amounts, fees and refund details only come from /requests
+      const requests = await getRequests(txHash, options, rawPayloads);
+      return { statuses, requests: requests.length > 0 ? requests.slice(0, MAX_TRACKED_REQUESTS) : undefined, rawPayloads };
+    }
+
+    // Step 1: Check /requests endpoint for request IDs
+    const requests = await getRequests(txHash, options, rawPayloads);
+
+    if (requests.length === 0) {
+      log.debug(`No requests found yet for ${txHash} - transaction still being processed`);
+      return null;
+    }
+
+    if (requests.length > 1) {
+      log.info(`${requests.length} requests match ${txHash}`);
+    }
+    if (requests.length > MAX_TRACKED_REQUESTS) {
+      log.warn(`Tracking only the latest ${MAX_TRACKED_REQUESTS} of ${requests.length} requests for ${txHash}`);
+    }
+
+    // Step 2: Get detailed status for every request
+    const tracked = requests.slice(0, MAX_TRACKED_REQUESTS);
+    const statuses = await Promise.all(tracked.map(request => getStatus(request.id, options, rawPayloads)));
+    for (const status of statuses) {
+      log.debug(`Request ${status.requestId} status: ${status.status}`);
+    }
+
+    return { statuses, requests: tracked, rawPayloads };
+  } catch (err) {
+    if (!isAbortError(err)) {
+      log.error('Error checking transaction status', err);
+    }
+    throw err;
+  }
+}
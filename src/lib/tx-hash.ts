@@ -0,0 +1,111 @@
+// Transaction hash formats per VM, keyed by the `vmType` Relay reports for each chain.
+// Explorer patterns capture the hash from a transaction page URL.
+export interface TxHashFormat {
+  vmType: string;
+  label: string;
+  pattern: RegExp; // Matches a bare hash
+  explorerPatterns: RegExp[];
+  normalize: (hash: string) => string; // Form sent to the Relay API
+}
+
+const BASE58 = '[1-9A-HJ-NP-Za-km-z]';
+
+const EVM_FORMAT: TxHashFormat = {
+  vmType: 'evm',
+  label: 'EVM transaction hash',
+  pattern: /^0x[a-fA-F0-9]{64}$/,
+  explorerPatterns: [
+    // Etherscan-style explorers on every EVM chain, e.g. etherscan.io/tx/0x…, basescan.org/tx/0x…
+    /\/tx\/(0x[a-fA-F0-9]{64})(?:[/?#]|$)/,
+  ],
+  normalize: hash => hash.toLowerCase(),
+};
+
+const SVM_FORMAT: TxHashFormat = {
+  vmType: 'svm',
+  label: 'Solana signature',
+  // 64-byte ed25519 signatures encode to 86-88 base58 characters
+  pattern: new RegExp(`^${BASE58}{86,88}$`),
+  explorerPatterns: [
+    // solscan.io/tx/…, explorer.solana.com/tx/…, solana.fm/tx/…, and Eclipse's eclipsescan.xyz/tx/…
+    new RegExp(`(?:solscan\\.io|explorer\\.solana\\.com|solana\\.fm|eclipsescan\\.xyz|explorer\\.eclipse\\.xyz)/tx/(${BASE58}{86,88})(?:[/?#]|$)`),
+  ],
+  // Base58 is case-sensitive; send it untouched
+  normalize: hash => hash,
+};
+
+const BVM_FORMAT: TxHashFormat = {
+  vmType: 'bvm',
+  label: 'Bitcoin transaction ID',
+  pattern: /^[a-fA-F0-9]{64}$/,
+  explorerPatterns: [
+    // mempool.space/tx/…, blockstream.info/tx/…, including their /testnet/ and /signet/ paths
+    /(?:mempool\.space|blockstream\.info)(?:\/[a-z0-9-]+)?\/tx\/([a-fA-F0-9]{64})(?:[/?#]|$)/,
+  ],
+  normalize: hash => hash.toLowerCase(),
+};
+
+const TVM_FORMAT: TxHashFormat = {
+  vmType: 'tvm',
+  label: 'Tron transaction ID',
+  pattern: /^[a-fA-F0-9]{64}$/,
+  explorerPatterns: [
+    // tronscan.org/#/transaction/…
+    /tronscan\.(?:org|io)\/#\/transaction\/([a-fA-F0-9]{64})(?:[/?#]|$)/,
+  ],
+  normalize: hash => hash.toLowerCase(),
+};
+
+const SUIVM_FORMAT: TxHashFormat = {
+  vmType: 'suivm',
+  label: 'Sui transaction digest',
+  // 32-byte digests encode to 43-44 base58 characters
+  pattern: new RegExp(`^${BASE58}{43,44}$`),
+  explorerPatterns: [
+    // suiscan.xyz/mainnet/tx/…, suivision.xyz/txblock/…
+    new RegExp(`(?:suiscan\\.xyz(?:/[a-z]+)?/tx|suivision\\.xyz/txblock)/(${BASE58}{43,44})(?:[/?#]|$)`),
+  ],
+  normalize: hash => hash,
+};
+
+// Registry of every VM Relay lists. Bitcoin and Tron IDs share a bare format, so a bare hash
+// can belong to several VMs; explorer URLs always identify one.
+export const TX_HASH_FORMATS: TxHashFormat[] = [EVM_FORMAT, SVM_FORMAT, BVM_FORMAT, TVM_FORMAT, SUIVM_FORMAT];
+
+export interface ParsedTxHash {
+  hash: string;
+  vmTypes: string[]; // Every VM whose format matches, in registry order
+}
+
+export function getTxHashFormat(vmType: string | undefined): TxHashFormat | undefined {
+  return TX_HASH_FORMATS.find(format => format.vmType === (vmType ?? 'evm'));
+}
+
+// Accepts a bare hash or an explorer URL; returns the normalized hash and the VM it belongs to
+export function parseTxHash(input: string): ParsedTxHash | null {
+  const trimmed = input.trim();
+
+  const bareMatches = TX_HASH_FORMATS.filter(format => format.pattern.test(trimmed));
+  if (bareMatches.length > 0) {
+    return { hash: bareMatches[0].normalize(trimmed), vmTypes: bareMatches.map(format => format.vmType) };
+  }
+
+  for (const format of TX_HASH_FORMATS) {
+    for (const pattern of format.explorerPatterns) {
+      const match = trimmed.match(pattern);
+      if (match) {
+        return { hash: format.normalize(match[1]), vmTypes: [format.vmType] };
+      }
+    }
+  }
+
+  return null;
+}
+
+// With a vmType only that VM's format is accepted; without one, any known format is
+export function isValidTxHash(hash: string, vmType?: string): boolean {
+  if (vmType) {
+    return getTxHashFormat(vmType)?.pattern.test(hash) ?? false;
+  }
+  return TX_HASH_FORMATS.some(format => format.pattern.test(hash));
+}
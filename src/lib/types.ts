@@ -3,19 +3,21 @@ export interface Chain {
   name: string;
   displayName: string;
   httpRpcUrl: string;
-  wsRpcUrl: string;
+  wsRpcUrl?: string | null;
   explorerUrl: string;
-  explorerName: string;
-  explorerPaths: {
-    transaction: string;
-  };
+  explorerName?: string | null;
+  explorerPaths?: {
+    transaction?: string | null;
+  } | null;
   depositEnabled: boolean;
-  tokenSupport: string;
+  tokenSupport?: string | null;
   disabled: boolean;
   vmType?: string;
   iconUrl?: string;
   logoUrl?: string;
   brandColor?: string;
+  contracts?: Record<string, unknown>; // Relay contract deployments on this chain, keyed by role
+  solverAddresses?: string[];
 }
 
 export interface IndexTransactionRequest {
@@ -28,11 +30,76 @@ export interface TransactionRequest {
   status: string;
   user: string;
   recipient: string;
-  data: any; // Complex nested structure
+  data?: TransactionRequestData;
   createdAt: string;
   updatedAt: string;
 }
 
+// One page of GET /requests; pass `continuation` back to fetch the next page
+export interface RequestsPage {
+  requests: TransactionRequest[];
+  continuation?: string;
+}
+
+export interface TransactionRequestData {
+  fees?: RequestFees;
+  feesUsd?: RequestFees;
+  inTxs?: RequestTransaction[];
+  outTxs?: RequestTransaction[];
+  currency?: string;
+  currencyObject?: Currency;
+  price?: string;
+  usesExternalLiquidity?: boolean;
+  timeEstimate?: number; // Seconds
+  metadata?: RequestMetadata;
+  appFees?: AppFee[];
+  paidAppFees?: AppFee[];
+  refundCurrencyData?: CurrencyAmount;
+  failReason?: string;
+  subsidizedRequest?: boolean;
+}
+
+// Raw amounts in the smallest unit of the fee currency (wei for EVM gas)
+export interface RequestFees {
+  gas?: string;
+  fixed?: string;
+  price?: string;
+}
+
+export interface RequestTransaction {
+  hash: string;
+  chainId: number;
+  type?: string;
+  fee?: string;
+  block?: number;
+  timestamp?: number; // Unix seconds
+  data?: unknown;
+  stateChanges?: unknown[];
+}
+
+export interface RequestMetadata {
+  sender?: string;
+  recipient?: string;
+  currencyIn?: CurrencyAmount;
+  currencyOut?: CurrencyAmount;
+  rate?: string;
+}
+
+export interface CurrencyAmount {
+  currency: Currency;
+  amount: string;
+  amountFormatted?: string;
+  amountUsd?: string;
+  minimumAmount?: string;
+}
+
+export interface AppFee {
+  recipient: string;
+  bps: string;
+  amount: string;
+  amountUsd?: string;
+}
+
 export interface TransactionStep {
   id: string;
   action: string;
@@ -51,11 +118,16 @@ export interface StepItem {
 }
 
 export interface Currency {
-  chainId: string;
+  chainId: number;
   address: string;
   symbol: string;
   name: string;
   decimals: number;
+  metadata?: {
+    logoURI?: string;
+    verified?: boolean;
+    isNative?: boolean;
+  };
 }
 
 export interface TransactionFee {
@@ -65,19 +137,75 @@ export interface TransactionFee {
 
 export interface RequestStatusResponse {
   requestId: string; // We'll add this from the request object
-  status: 'pending' | 'success' | 'failed' | string;
+  status: 'waiting' | 'pending' | 'delayed' | 'submitted' | 'success' | 'failure' | 'refund' | string;
   inTxHashes: string[];
   txHashes: string[];
+  details?: string;
+  time?: number;
   updatedAt: number;
   originChainId: number;
   destinationChainId: number;
 }
 
 export interface MonitoringState {
+  id: string; // Watchlist entry ID
   isMonitoring: boolean;
   transactionHash: string;
+  chainId?: number;
+  apiBaseUrl?: string; // Relay API the entry was indexed against
+  addedAt?: Date | string;
   requestId?: string;
   lastChecked?: Date | string;
   error?: string;
   transactionDetails?: RequestStatusResponse;
-}
\ No newline at end of file
+  timeline?: TimelineEvent[]; // Lifecycle events in the order they were observed
+  matchingRequests?: RequestSummary[]; // Every request /requests returned for the hash, newest first
+  requestStatuses?: RequestStatusResponse[]; // Latest status of each matching request; `transactionDetails` is the selected one
+  deadlineAt?: Date | string; // Polling gives up after this point
+  timedOut?: boolean; // Set when the deadline passed before a terminal status
+}
+
+export interface TransactionStatusCheck {
+  statuses: RequestStatusResponse[]; // One per request that was checked
+  requests?: TransactionRequest[]; // Every tracked request for the hash; absent when /requests was skipped
+  // Response bodies as received, before validation, keyed by request ID
+  rawPayloads: { status: Record<string, unknown>; request: Record<string, unknown> };
+}
+
+export interface RequestSummary {
+  id: string;
+  status: string;
+  createdAt: string;
+  user?: string;
+  recipient?: string;
+  data?: TransactionRequestData; // Currencies, fees and refund details for the breakdown
+}
+
+export type TimelineEventType =
+  | 'submitted' // URL or hash submitted by the user
+  | 'indexed' // POST /transactions/index accepted
+  | 'request-found' // First request ID returned by /requests
+  | 'status' // Status change reported by /intents/status/v3
+  | 'destination-tx' // A destination transaction hash appeared
+  | 'timed-out'; // Monitoring deadline passed before a terminal status
+
+export interface TimelineEvent {
+  type: TimelineEventType;
+  at: string; // ISO timestamp when the event was first observed
+  status?: string;
+  requestId?: string;
+  txHash?: string;
+}
+
+export interface HistoryEntry {
+  id: string; // Derived from API, chain and hash so re-indexing updates the same entry
+  transactionHash: string;
+  chainId?: number;
+  apiBaseUrl: string;
+  requestId?: string;
+  status?: string; // Aggregate over every matching request; final once `completedAt` is set
+  error?: string;
+  submittedAt: string;
+  updatedAt: string;
+  completedAt?: string; // When a terminal status was first observed
+}
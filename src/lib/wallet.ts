@@ -0,0 +1,18 @@
+// Address formats accepted by /requests?user=; anything else is rejected before calling the API.
+// Ordered most specific first: Tron addresses are also valid base58.
+const WALLET_ADDRESS_PATTERNS: { vm: string; pattern: RegExp }[] = [
+  { vm: 'evm', pattern: /^0x[a-fA-F0-9]{40}$/ },
+  { vm: 'suivm', pattern: /^0x[a-fA-F0-9]{64}$/ },
+  { vm: 'bvm', pattern: /^(bc1|tb1)[02-9ac-hj-np-z]{11,87}$/ },
+  { vm: 'tvm', pattern: /^T[1-9A-HJ-NP-Za-km-z]{33}$/ },
+  { vm: 'svm', pattern: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/ },
+];
+
+export function detectWalletVm(address: string): string | null {
+  const trimmed = address.trim();
+  return WALLET_ADDRESS_PATTERNS.find(({ pattern }) => pattern.test(trimmed))?.vm ?? null;
+}
+
+export function isWalletAddress(address: string): boolean {
+  return detectWalletVm(address) !== null;
+}